@@ -1,9 +1,19 @@
 import dotenv from 'dotenv';
 import schedule from 'node-schedule';
-import { LogLevel, ContentType } from './utils/enums';
-import { loginToBluesky, sanitizeAndPostContent } from './functions/bluesky';
+import { LogLevel, ContentType, OutboxStatus, StorageBackendType, ScheduleMode } from './utils/enums';
+import { flushOutbox, loginToBluesky, sanitizeAndPostContent } from './functions/bluesky';
 import { fetchOnThisDayArticle } from './functions/wikipedia';
-import { loadArticles, log, isValidCronNotation, saveArticleToJSON, loadArticle, markArticleContentAsPosted } from './functions/utils';
+import { LOCALE } from './utils/locales';
+import { log, isValidCronNotation, getArticleIdForDate, getContentId, getHourInTimezone, migrateContentIds, TIMEZONE } from './functions/utils';
+import { importJSONIntoSQLite, migrateContentIdsInSQLite, storage } from './functions/storage';
+import { withRunLock } from './functions/lock';
+import { reconcileArticle } from './functions/reconcile';
+import { startPlanner } from './functions/planner';
+import { getNextContent } from './functions/ordering';
+import { setReady, startAdminServer } from './functions/server';
+import { createDrafts, getLatestOutboxEntries, requiresApproval, sendApprovedDraft } from './functions/moderation';
+import { Content } from './classes/classes';
+import { getTemplates } from './functions/templates';
 
 // load environment variables
 dotenv.config();
@@ -14,157 +24,255 @@ const EARLIEST_START_HOUR = process.env.EARLIEST_START_HOUR != undefined ? Numbe
 const LATEST_START_HOUR = Number(process.env.LATEST_START_HOUR) || 22;
 const CRON_SCHEDULE = (isValidCronNotation(process.env.CRON_SCHEDULE)? process.env.CRON_SCHEDULE : '0 */2 * * *') || '0 */2 * * *';
 const DEBUG_CRON_SCHEDULE = (isValidCronNotation(process.env.DEBUG_CRON_SCHEDULE)? process.env.DEBUG_CRON_SCHEDULE : '*/15 * * * * *') || '*/15 * * * * *';
+const PREGENERATE_DAYS = Number(process.env.PREGENERATE_DAYS) || 0;
+const SCHEDULE_MODE = (process.env.SCHEDULE_MODE as ScheduleMode) || ScheduleMode.cron;
 
 /**
- * Main function that runs the bot
+ * Fetches and saves the articles of the upcoming days (as configured in PREGENERATE_DAYS),
+ * so they are ready to be posted on their day
  * @returns {Promise<void>}
  */
-async function runBot(): Promise<void> {
+async function pregenerateArticles(): Promise<void> {
+	const articles = await storage.loadArticles();
+	for (let days = 1; days <= PREGENERATE_DAYS; days++) {
+		const date = new Date();
+		date.setUTCDate(date.getUTCDate() + days);
+		const articleId = getArticleIdForDate(date);
+		if (articles.find(a => a.id === articleId)) continue;
+
+		log(LogLevel.INFO, 'Pre-generating article:', articleId);
+		const article = await fetchOnThisDayArticle(date);
+		if (article) {
+			await storage.saveArticle(article);
+		} else {
+			log(LogLevel.WARNING, 'Failed to pre-generate article:', articleId);
+		}
+	}
+}
+
+/**
+ * Main function that runs the bot
+ * @param {string} [contentId] - The id of the content to be posted (e.g. the one planned for a slot of the planner) -
+ * if it is not postable (right now), the next content is picked as configured in ORDERING_STRATEGY
+ * @returns {Promise<boolean>} whether a post has been made, either of new content or from the outbox
+ * @throws {Error} if the run failed (the error has already been logged)
+ */
+async function runBot(contentId?: string): Promise<boolean> {
+	let posted = false;
 	try {
 		log(LogLevel.INFO, 'Bot started...');
 		log(LogLevel.DEBUG, 'Initializing agent...');
 		if (!DEBUG_MODE) await loginToBluesky();			
+
+		// deliver posts that could not be delivered in a previous run first
+		log(LogLevel.DEBUG, 'Flushing outbox...');
+		const outbox = await flushOutbox();
+		if (outbox.sent > 0 || outbox.pending > 0) {
+			log(LogLevel.INFO, `Outbox delivered ${outbox.sent} and still holds ${outbox.pending} pending post(s) - no new content will be posted in this run`);
+			log(LogLevel.INFO, 'Bot stopped...');
+			return outbox.sent > 0;
+		}
 		
 		log(LogLevel.DEBUG, 'Load articles...');
-		const articles = await loadArticles();
+		const articles = await storage.loadArticles();
 		log(LogLevel.TRACE, 'Articles loaded:', articles);
 
 		// get today's date and format it as ISO string
-		const today = new Date();
-		const todayUTC = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate(), 0, 0, 0));
-		const todayISO = todayUTC.toISOString();
+		const todayISO = getArticleIdForDate(new Date());
 
 		// try to find today's article in the loaded articles
-		const articleOfToday = articles.find(a => a.id === todayISO);
+		let articleOfToday = articles.find(a => a.id === todayISO);
 
 		// check if the article of the day is already in our JSON file
-		if (!articles || !articleOfToday) {
+		if (!articleOfToday) {
 			// article of today was not found in JSON file
 			log(LogLevel.TRACE, 'articles:', JSON.stringify(articles));
 			// fetch article of today from atom feed
 			log(LogLevel.DEBUG, 'Fetching Atom feed...');
 			const fetchedArticleOfToday = await fetchOnThisDayArticle();
+			if (!fetchedArticleOfToday) {
+				log(LogLevel.ERROR, 'Could not fetch article of today:', todayISO);
+				log(LogLevel.INFO, 'Bot stopped...');
+				return false;
+			}
 			log(LogLevel.TRACE, 'articleOfToday:', fetchedArticleOfToday.toString());
-			log(LogLevel.DEBUG, 'postedArticles.includes(articleOfToday):', JSON.stringify(articles).includes(fetchedArticleOfToday.id));
 			// if not in JSON file yet, log info that we got a new article
 			log(LogLevel.INFO, 'Processing new Article:', fetchedArticleOfToday.id);
 
 			// instead of just saving the article without contents, 
 			// we will save the article with all its contents
-			await saveArticleToJSON(fetchedArticleOfToday);
-
-			// initialize index at 0
-			let firstRealContent = 0;
-			let firstRealContentFound = false;
-
-			// loop through the just saved article contents
-			const savedArticle = await loadArticle(fetchedArticleOfToday.id);
-			for (const content of savedArticle.contentList) {
-				switch (content.type) {
-					case ContentType.todayText:
-						// ...increment our index value:
-						firstRealContent++;
-						break;
-					default:
-						firstRealContentFound = true;
-						break;
-				}
-				// if we already found the first "real" content,
-				// break the loop
-				if (firstRealContentFound) break;
-			}
+			await storage.saveArticle(fetchedArticleOfToday);
+			articleOfToday = await storage.loadArticle(fetchedArticleOfToday.id);
+		} else {
+			// article of today was found in DB - apply changes Wikipedia editors made in the meantime
+			articleOfToday = await reconcileArticle(articleOfToday);
+		}
+		log(LogLevel.TRACE, 'Article:', articleOfToday);
+
+		// the today text is never posted on its own, so we'll just mark it as posted
+		for (const content of articleOfToday.contentList) {
+			if (!content.alreadyPosted && content.type === ContentType.todayText) await storage.markContentAsPosted(articleOfToday, content);
+		}
+
+		// in approval mode, new contents are rendered into drafts for the reviewers
+		await createDrafts(articleOfToday);
 
-			// no need to loop through article contents
-			// just post the first entry since the article did not exist in our DB
-			log(LogLevel.INFO, 'Preparing first postable content for article:', savedArticle.id);
-			log(LogLevel.TRACE, 'Article:', savedArticle);
+		// content that ultimately failed to deliver will not be retried automatically, content that has been
+		// delivered is never posted again (even if it could not be marked as posted), and drafts are only
+		// posted once they have been approved
+		const latestEntries = await getLatestOutboxEntries(articleOfToday.id);
+		const isPostable = (content: Content): boolean => {
+			const entry = latestEntries.get(getContentId(articleOfToday.id, content));
+			if (entry && [OutboxStatus.sent, OutboxStatus.failed, OutboxStatus.rejected, OutboxStatus.draft].includes(entry.status)) return false;
+			return !requiresApproval(content) || (entry && entry.status === OutboxStatus.approved);
+		};
+
+		// post the requested content if possible, otherwise pick the next content as configured in ORDERING_STRATEGY
+		let nextContent = contentId ? getNextContent(articleOfToday, c => getContentId(articleOfToday.id, c) === contentId && isPostable(c)) : null;
+		if (contentId && !nextContent) log(LogLevel.INFO, 'Requested content is not postable right now - picking the next one instead:', contentId);
+		if (!nextContent) nextContent = getNextContent(articleOfToday, isPostable);
+		if (nextContent) {
+			// new content, so post this
+			log(LogLevel.INFO, 'Preparing new postable content for article:', articleOfToday.id);
 
 			// need to call function to sanitize post content
 			// this function also takes care of posting to Bsky
-			const postSuccessful = await sanitizeAndPostContent(fetchedArticleOfToday, savedArticle.contentList[firstRealContent]);
+			// the rest of the content will be posted at a later time!
+			const approvedDraft = latestEntries.get(getContentId(articleOfToday.id, nextContent));
+			const postSuccessful = approvedDraft && approvedDraft.status === OutboxStatus.approved
+				? await sendApprovedDraft(approvedDraft)
+				: await sanitizeAndPostContent(articleOfToday, nextContent);
 
 			// log failed posts to the console
 			if (!postSuccessful) log(LogLevel.CRITICAL, 'Failed to post to Bluesky!!!');
-
+			posted = postSuccessful;
 		} else {
-			// article of today was found in DB - need to check which content we can post	
-			let freshContentFound = false;
-			// loop through article contents
-			for (const content of articleOfToday.contentList) {
-
-				// check if content has been posted already
-				//const alreadyPosted = await checkIfContentAlreadyPostedForArticle(articleOfToday, content);
-				const alreadyPosted = content.alreadyPosted;
-
-				if (!alreadyPosted && content.type != ContentType.todayText) {
-
-					// new content, so post this
-					log(LogLevel.INFO, 'Preparing new postable content for article:', articleOfToday.id);
-					freshContentFound = true;
-
-					// need to call function to sanitize post content
-					// this function also takes care of posting to Bsky
-					const postSuccessful = await sanitizeAndPostContent(articleOfToday, content);
-
-					// log failed posts to the console
-					if (!postSuccessful) log(LogLevel.CRITICAL, 'Failed to post to Bluesky!!!');
-
-					// break the loop, because we want to post the rest of the content at a later time!
-					break;
-				}
-
-				// instead of saving the article content, we'll mark the content as posted
-				if (!alreadyPosted && content.type === ContentType.todayText) await markArticleContentAsPosted(articleOfToday, content);
-			}
-
-			// if all content of today has been posted, just log an info message			
-			if (!freshContentFound) log(LogLevel.INFO, 'All content for article already posted:', articleOfToday.id);
+			// if all content of today has been posted (or is waiting for approval), just log an info message
+			log(LogLevel.INFO, 'No postable content left for article:', articleOfToday.id);
 		}
+
+		// prepare the articles of the upcoming days
+		if (PREGENERATE_DAYS > 0) await pregenerateArticles();
 	} catch (error) {
 		log(LogLevel.CRITICAL, 'Error running bot:', error);
+		log(LogLevel.INFO, 'Bot stopped...');
+		throw error;
 	}
 	log(LogLevel.INFO, 'Bot stopped...');
+	return posted;
+}
+
+/**
+ * Run the bot on schedule while holding the run lock. A failed run has already been logged
+ * by the bot and must not stop the schedule
+ * @param {string} [contentId] - The id of the content to be posted, see runBot
+ * @returns {Promise<boolean>} whether a post has been made - false if the run has been skipped or failed
+ */
+async function runScheduledBot(contentId?: string): Promise<boolean> {
+	let posted = false;
+	try {
+		await withRunLock(async () => { posted = await runBot(contentId); });
+	} catch {
+		log(LogLevel.DEBUG, 'Run failed, waiting for the next one...');
+	}
+	return posted;
 }
 
 log(LogLevel.INFO, 'DEBUG_MODE is', DEBUG_MODE);
+log(LogLevel.INFO, 'Wikipedia language is', LOCALE.language);
+log(LogLevel.INFO, 'Timezone is', TIMEZONE);
+if (process.env.WIKIPEDIA_LANGUAGE && process.env.WIKIPEDIA_LANGUAGE !== LOCALE.language) log(LogLevel.WARNING, 'Unsupported WIKIPEDIA_LANGUAGE', process.env.WIKIPEDIA_LANGUAGE, '- falling back to', LOCALE.language);
 log(LogLevel.INFO, 'Bot is configured to run only from', (EARLIEST_START_HOUR<10?'0'+EARLIEST_START_HOUR:EARLIEST_START_HOUR)+':00', 'to', LATEST_START_HOUR+':00')
 log(LogLevel.DEBUG, 'POST_ONCE_ONLY is', POST_ONCE_ONLY);
-// schedule a job
-if (DEBUG_MODE === true) {
-	// schedule bot to run as often as defined in DEBUG_CRON_SCHEDULE
-	log(LogLevel.INFO, 'Scheduling bot to run using the following DEBUG cron schedule:', DEBUG_CRON_SCHEDULE);
-	schedule.scheduleJob(DEBUG_CRON_SCHEDULE, () => {
-		log(LogLevel.DEBUG, 'Current time:', new Date().toLocaleString());
-		log(LogLevel.DEBUG, 'Current hour:', new Date().getHours());
-		log(LogLevel.DEBUG, 'UTC DateTime:', new Date().toUTCString());
-		log(LogLevel.DEBUG, 'EARLIEST_START_HOUR:', EARLIEST_START_HOUR);
-		log(LogLevel.DEBUG, 'LATEST_START_HOUR:', LATEST_START_HOUR);
-		log(LogLevel.DEBUG, 'Is too early?', new Date().getHours()<EARLIEST_START_HOUR);
-		log(LogLevel.DEBUG, 'Is too late?', new Date().getHours()>LATEST_START_HOUR);
-		if (new Date().getHours() < EARLIEST_START_HOUR || new Date().getHours() > LATEST_START_HOUR) {
-			log(LogLevel.INFO, 'Current time is outside of the allowed range - Bot will not run...');
-			return;
-		}
-		log(LogLevel.DEBUG, 'Job has been triggered...');
-		runBot();
-		log(LogLevel.DEBUG, 'Job completed...');
-	});
-} else {
-	// if POST_ONCE_ONLY is true, post to Bsky once
-	// otherwise schedule bot to run as defined in CRON_SCHEDULE
-	if (!POST_ONCE_ONLY) {
-		log(LogLevel.INFO, 'Scheduling bot using the following cron schedule:', CRON_SCHEDULE);
-		schedule.scheduleJob(CRON_SCHEDULE, () => {
-			if (new Date().getHours() < EARLIEST_START_HOUR || new Date().getHours() > LATEST_START_HOUR) {
+if (!Object.values(ScheduleMode).includes(SCHEDULE_MODE)) log(LogLevel.WARNING, 'Invalid SCHEDULE_MODE', SCHEDULE_MODE, '- using', ScheduleMode.cron, 'instead...');
+/**
+ * Logs the bot in and schedules it as configured
+ * @returns {Promise<void>}
+ */
+async function startBot(): Promise<void> {
+	// a broken templates file would only show once the first post is rendered
+	try {
+		getTemplates();
+	} catch (error) {
+		log(LogLevel.CRITICAL, 'Invalid post templates - refusing to start:', error.message || error);
+		process.exit(1);
+	}
+
+	// refuse to start if we cannot log in to Bluesky,
+	// instead of running unauthenticated
+	try {
+		await loginToBluesky();
+	} catch (error) {
+		log(LogLevel.CRITICAL, 'Could not log in to Bluesky - refusing to start:', error);
+		process.exit(1);
+	}
+
+	// contents stored before content ids were introduced need to get their ids first
+	await migrateContentIds();
+
+	// the SQLite database takes over the existing JSON files
+	if (storage.type === StorageBackendType.sqlite) {
+		await importJSONIntoSQLite();
+		await migrateContentIdsInSQLite();
+	}
+
+	// the admin API is only needed while the bot keeps running
+	if (DEBUG_MODE || !POST_ONCE_ONLY) startAdminServer(() => withRunLock(runBot));
+
+	// schedule a job
+	if (DEBUG_MODE === true) {
+		// schedule bot to run as often as defined in DEBUG_CRON_SCHEDULE
+		log(LogLevel.INFO, 'Scheduling bot to run using the following DEBUG cron schedule:', DEBUG_CRON_SCHEDULE);
+		schedule.scheduleJob({ rule: DEBUG_CRON_SCHEDULE, tz: TIMEZONE }, async () => {
+			const currentHour = getHourInTimezone(new Date());
+			log(LogLevel.DEBUG, 'Current time:', new Date().toLocaleString('en-GB', { timeZone: TIMEZONE }));
+			log(LogLevel.DEBUG, 'Current hour:', currentHour);
+			log(LogLevel.DEBUG, 'UTC DateTime:', new Date().toUTCString());
+			log(LogLevel.DEBUG, 'EARLIEST_START_HOUR:', EARLIEST_START_HOUR);
+			log(LogLevel.DEBUG, 'LATEST_START_HOUR:', LATEST_START_HOUR);
+			log(LogLevel.DEBUG, 'Is too early?', currentHour<EARLIEST_START_HOUR);
+			log(LogLevel.DEBUG, 'Is too late?', currentHour>LATEST_START_HOUR);
+			if (currentHour < EARLIEST_START_HOUR || currentHour > LATEST_START_HOUR) {
 				log(LogLevel.INFO, 'Current time is outside of the allowed range - Bot will not run...');
 				return;
 			}
 			log(LogLevel.DEBUG, 'Job has been triggered...');
-			runBot();
+			await runScheduledBot();
 			log(LogLevel.DEBUG, 'Job completed...');
 		});
 	} else {
-		log(LogLevel.INFO, 'Running bot once only...');
-		runBot();
+		// if POST_ONCE_ONLY is true, post to Bsky once
+		// otherwise let the planner spread the entries across the day
+		// or schedule bot to run as defined in CRON_SCHEDULE
+		if (!POST_ONCE_ONLY && SCHEDULE_MODE === ScheduleMode.planner) {
+			log(LogLevel.INFO, 'Scheduling bot using the planner...');
+			await startPlanner(runScheduledBot);
+		} else if (!POST_ONCE_ONLY) {
+			log(LogLevel.INFO, 'Scheduling bot using the following cron schedule:', CRON_SCHEDULE);
+			schedule.scheduleJob({ rule: CRON_SCHEDULE, tz: TIMEZONE }, async () => {
+				const currentHour = getHourInTimezone(new Date());
+				if (currentHour < EARLIEST_START_HOUR || currentHour > LATEST_START_HOUR) {
+					log(LogLevel.INFO, 'Current time is outside of the allowed range - Bot will not run...');
+					return;
+				}
+				log(LogLevel.DEBUG, 'Job has been triggered...');
+				await runScheduledBot();
+				log(LogLevel.DEBUG, 'Job completed...');
+			});
+		} else {
+			log(LogLevel.INFO, 'Running bot once only...');
+			try {
+				await withRunLock(runBot);
+			} catch {
+				// the error has already been logged, but the exit code should tell it too
+				process.exitCode = 1;
+			}
+		}
 	}
-}
\ No newline at end of file
+	setReady(true);
+}
+
+// only start the bot if this file is run directly (and not imported by the CLI)
+if (require.main === module) startBot();
+
+export { runBot, startBot };
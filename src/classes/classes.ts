@@ -1,21 +1,28 @@
-import { ContentType } from '../utils/enums';
-import { AppBskyFeedPost, RichText } from '@atproto/api';
-import { Picture } from '../utils/interfaces';
+import { randomUUID } from 'crypto';
+import { ContentType, OutboxStatus } from '../utils/enums';
+import { AppBskyFeedPost, ComAtprotoLabelDefs, RichText } from '@atproto/api';
+import { ContentFlags, Picture, PostRef } from '../utils/interfaces';
 
 /**
  * A class that represents a content object
  * @class Content
+ * @property {string} id - The stable id of the content, derived from the article id, the type and the normalized text
  * @property {ContentType} type - The type of the content
  * @property {string} value - The value of the content
  * @property {string} imgUri - The image URI associated with the content
  * @property {string} imgAltText - The data of the content
  * @property {boolean} alreadyPosted - A boolean value that indicates if the content has already been posted
+ * @property {boolean} retired - A boolean value that indicates if the content has been removed from the feed before it was posted
+ * @property {ContentFlags|null} flags - The flags the rules have set on the content
  */
 class Content {
+	id: string|null;
 	type: ContentType;
 	value: string;
 	img: Picture|null;
 	alreadyPosted: boolean;
+	retired: boolean;
+	flags: ContentFlags|null;
 
 	/**
 	 * Creates an instance of Content.
@@ -23,13 +30,20 @@ class Content {
 	 * @param {string} value - The value of the content
 	 * @param {string} [imgUri=null] - The image URI associated with the content (default is null)
 	 * @param {string} [imgUri=null] - The data of the content (default is null)
+	 * @param {boolean} [alreadyPosted=false] - Whether the content has already been posted (default is false)
+	 * @param {string} [id=null] - The stable id of the content (default is null, i.e. not assigned yet)
+	 * @param {boolean} [retired=false] - Whether the content has been removed from the feed (default is false)
+	 * @param {ContentFlags} [flags=null] - The flags the rules have set on the content (default is null)
 	 * @constructor
 	 */
-	constructor(type: ContentType, value: string, img: Picture = null, alreadyPosted: boolean = false) {
+	constructor(type: ContentType, value: string, img: Picture = null, alreadyPosted: boolean = false, id: string = null, retired: boolean = false, flags: ContentFlags = null) {
+		this.id = id;
 		this.type = type;
 		this.value = value;
 		this.img = img;
 		this.alreadyPosted = alreadyPosted;
+		this.retired = retired;
+		this.flags = flags;
 	}
 }
 
@@ -79,6 +93,8 @@ class Article {
  * @property {RichText["text"]} text - The text of the post
  * @property {AppBskyFeedPost.Record["embed"]} - The embeds of the post
  * @property {RichText["facets"]} facets - The facets of the post
+ * @property {AppBskyFeedPost.Record["reply"]} reply - The root and parent references, if the post is a reply within a thread
+ * @property {string[]} langs - The languages of the post
  * @property {string} createdAt - The creation date of the post
  */
 class BlueskyPost {
@@ -86,6 +102,9 @@ class BlueskyPost {
 	text: RichText["text"];
 	embed?: AppBskyFeedPost.Record["embed"];
 	facets?: RichText["facets"];
+	reply?: AppBskyFeedPost.Record["reply"];
+	langs?: string[];
+	labels?: ComAtprotoLabelDefs.SelfLabels;
 	createdAt!: string;
 
 	/**
@@ -93,15 +112,107 @@ class BlueskyPost {
 	 * @param {RichText["text"]} text - The text of the post
 	 * @param {RichText["facets"]} facets - The facets of the post
 	 * @param {string} createdAt - The creation date of the post
+	 * @param {string[]} langs - The languages of the post
 	 * @constructor
 	 */
-	constructor(text: RichText["text"], createdAt: string, embeds?: AppBskyFeedPost.Record["embed"], facets?: RichText["facets"] ) {
+	constructor(text: RichText["text"], createdAt: string, embeds?: AppBskyFeedPost.Record["embed"], facets?: RichText["facets"], langs?: string[]) {
 		this.$type = 'app.bsky.feed.post';
 		this.text = text;
 		this.embed = embeds;
 		this.facets = facets;
+		this.langs = langs;
 		this.createdAt = createdAt;
 	}
 }
 
-export { Article, Content, BlueskyPost };
\ No newline at end of file
+/**
+ * A class that represents a Bluesky post that has been persisted after posting,
+ * including the reference to the created post and to the content it stems from
+ * @class PersistedPost
+ * @extends BlueskyPost
+ * @property {string|null} uri - The AT URI of the created post (null in debug mode)
+ * @property {string|null} cid - The CID of the created post (null in debug mode)
+ * @property {string} articleId - The id of the article the content belongs to
+ * @property {string} contentId - The stable id of the content
+ * @property {ContentType} contentType - The type of the content
+ * @property {string} postedAt - The date the post has been created on Bluesky
+ */
+class PersistedPost extends BlueskyPost {
+	uri: string|null;
+	cid: string|null;
+	articleId: string;
+	contentId: string;
+	contentType: ContentType;
+	postedAt: string;
+
+	/**
+	 * Creates an instance of PersistedPost.
+	 * @param {BlueskyPost} post - The post that has been posted
+	 * @param {PostRef|null} ref - The reference of the created post (null in debug mode)
+	 * @param {string} articleId - The id of the article the content belongs to
+	 * @param {string} contentId - The stable id of the content
+	 * @param {ContentType} contentType - The type of the content
+	 * @param {string} postedAt - The date the post has been created on Bluesky
+	 * @constructor
+	 */
+	constructor(post: BlueskyPost, ref: PostRef|null, articleId: string, contentId: string, contentType: ContentType, postedAt: string) {
+		super(post.text, post.createdAt, post.embed, post.facets, post.langs);
+		this.reply = post.reply;
+		this.uri = ref ? ref.uri : null;
+		this.cid = ref ? ref.cid : null;
+		this.articleId = articleId;
+		this.contentId = contentId;
+		this.contentType = contentType;
+		this.postedAt = postedAt;
+	}
+}
+
+/**
+ * A class that represents an entry of the outbox, i.e. a rendered
+ * post (or thread) that is waiting to be delivered to Bluesky
+ * @class OutboxEntry
+ * @property {string} id - The id of the outbox entry
+ * @property {string} articleId - The id of the article the content belongs to
+ * @property {Content} content - The content that has been rendered
+ * @property {BlueskyPost[]} posts - The rendered posts, root post first
+ * @property {Array<PostRef|null>} refs - The references of the posts that have already been delivered (null in debug mode)
+ * @property {OutboxStatus} status - The delivery status of the entry
+ * @property {number} attempts - The number of delivery attempts so far
+ * @property {string} nextAttemptAt - The earliest time of the next delivery attempt
+ * @property {string|null} lastError - The error of the last failed delivery attempt
+ * @property {string} createdAt - The creation date of the entry
+ */
+class OutboxEntry {
+	id: string;
+	articleId: string;
+	content: Content;
+	posts: BlueskyPost[];
+	refs: (PostRef|null)[];
+	status: OutboxStatus;
+	attempts: number;
+	nextAttemptAt: string;
+	lastError: string|null;
+	createdAt: string;
+
+	/**
+	 * Creates an instance of OutboxEntry.
+	 * @param {string} articleId - The id of the article the content belongs to
+	 * @param {Content} content - The content that has been rendered
+	 * @param {BlueskyPost[]} posts - The rendered posts, root post first
+	 * @constructor
+	 */
+	constructor(articleId: string, content: Content, posts: BlueskyPost[]) {
+		this.id = randomUUID();
+		this.articleId = articleId;
+		this.content = content;
+		this.posts = posts;
+		this.refs = [];
+		this.status = OutboxStatus.pending;
+		this.attempts = 0;
+		this.createdAt = new Date().toISOString();
+		this.nextAttemptAt = this.createdAt;
+		this.lastError = null;
+	}
+}
+
+export { Article, Content, BlueskyPost, PersistedPost, OutboxEntry };
\ No newline at end of file
@@ -0,0 +1,256 @@
+import dotenv from 'dotenv';
+import { parse } from 'node-html-parser';
+import { Content, OutboxEntry } from './classes/classes';
+import { ContentType, LogLevel, OutboxStatus, StorageBackendType } from './utils/enums';
+import { renderThread } from './functions/bluesky';
+import { fetchOnThisDayArticle } from './functions/wikipedia';
+import { getArticleIdForDate, getContentId, getDateForArticleId, log, migrateContentIds } from './functions/utils';
+import { importJSONIntoSQLite, migrateContentIdsInSQLite, storage } from './functions/storage';
+import { withRunLock } from './functions/lock';
+import { reconcileArticle } from './functions/reconcile';
+import { orderContents } from './functions/ordering';
+import { requeueContent, skipContent } from './functions/queue';
+import { isSkipped } from './functions/rules';
+import { isMilestone } from './functions/milestones';
+import { approveDraft, editDraft, getLatestOutboxEntries, loadDrafts, rejectDraft } from './functions/moderation';
+import { runBot, startBot } from './app';
+
+// load environment variables
+dotenv.config();
+
+const USAGE = `Usage: npm run cli -- <command> [arguments]
+
+Commands:
+  preview [date]   render all posts of the article of a date (YYYY-MM-DD, default today) without posting them
+  queue            list the contents of today's article and their status
+  post-next        post the next content of today's article right away
+  skip <id>        mark a content as posted, so it will not be posted
+  requeue <id>     mark a content as not posted, so it will be posted (again)
+  fetch [date]     fetch the article of a date (YYYY-MM-DD, default today) and apply changes to the stored one
+  drafts           list the drafts that are waiting for approval (or have been approved)
+  approve <id>     approve the draft of a content, so it will be posted on the next run
+  edit <id> <text> replace the text of the draft of a content
+  reject <id>      reject the draft of a content, so it will not be posted
+  run              start the bot as configured (same as npm start)`;
+
+/**
+ * Get the id of the article for a date given on the command line
+ * @param {string} [date] - The date in the format YYYY-MM-DD (default is today)
+ * @returns {string} the article id
+ */
+function getArticleIdForArgument(date?: string): string {
+	if (!date) return getArticleIdForDate(new Date());
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(`${date}T00:00:00.000Z`).getTime())) {
+		throw new Error(`Invalid date: ${date} - expected YYYY-MM-DD`);
+	}
+	return `${date}T00:00:00.000Z`;
+}
+
+/**
+ * Get the plain text of a content, shortened to a single line
+ * @param {Content} content - The content
+ * @param {number} [maxLength=80] - The maximum length of the text
+ * @returns {string}
+ */
+function getShortText(content: Content, maxLength: number = 80): string {
+	const text = parse(content.value).text.replace(/\s+/g, ' ').trim();
+	return text.length > maxLength ? text.substring(0, maxLength - 1) + '…' : text;
+}
+
+/**
+ * Render all posts of the article of a date without posting them
+ * @param {string} [date] - The date in the format YYYY-MM-DD
+ * @returns {Promise<void>}
+ */
+async function preview(date?: string): Promise<void> {
+	const articleId = getArticleIdForArgument(date);
+	const article = await storage.loadArticle(articleId) || await fetchOnThisDayArticle(getDateForArticleId(articleId));
+	if (!article) throw new Error(`Cannot get article ${articleId}`);
+
+	for (const content of orderContents(article)) {
+		const thread = await renderThread(article, content);
+		console.log(`\n=== ${getContentId(article.id, content)} (${content.type})${content.alreadyPosted ? ' [posted]' : ''}${content.retired ? ' [retired]' : ''}${isSkipped(content) ? ` [skipped: ${content.flags.skipReason}]` : ''}${isMilestone(content) ? ` [milestone: ${content.flags.milestone} years]` : ''}`);
+		if (content.img) console.log(`[image: ${content.img.uri}]`);
+		for (const [index, post] of thread.entries()) {
+			if (index > 0) console.log(`--- reply ${index}`);
+			console.log(post.text);
+		}
+	}
+}
+
+/**
+ * List the contents of today's article and their status
+ * @returns {Promise<void>}
+ */
+async function queue(): Promise<void> {
+	const articleId = getArticleIdForDate(new Date());
+	const article = await storage.loadArticle(articleId);
+	if (!article) {
+		console.log(`No article stored for ${articleId} yet - use "fetch" to fetch it`);
+		return;
+	}
+
+	const latestEntries = await getLatestOutboxEntries(article.id);
+	const todayText = article.contentList.find(c => c.type === ContentType.todayText);
+	console.log(`Article ${article.id}${todayText ? ': ' + getShortText(todayText) : ''}`);
+	for (const content of orderContents(article)) {
+		const contentId = getContentId(article.id, content);
+		let status = 'queued';
+		if (content.alreadyPosted) status = 'posted';
+		else if (content.retired) status = 'retired';
+		else if (isSkipped(content)) status = 'skipped';
+		else if (latestEntries.has(contentId) && latestEntries.get(contentId).status !== OutboxStatus.superseded) status = latestEntries.get(contentId).status;
+		console.log(`${contentId.padEnd(18)} ${status.padEnd(8)} ${content.type.padEnd(14)} ${getShortText(content)}`);
+	}
+}
+
+/**
+ * Run a command that modifies the stored articles or the outbox while holding the run lock,
+ * so it cannot interfere with a running bot
+ * @param {Function} fn - The command
+ * @returns {Promise<void>}
+ * @throws {Error} if another run holds the lock
+ */
+async function withLock(fn: () => Promise<void>): Promise<void> {
+	if (!(await withRunLock(fn))) throw new Error('Another run is in progress - try again later');
+}
+
+/**
+ * Mark a content as posted or as not posted
+ * @param {string} contentId - The id of the content
+ * @param {boolean} posted - Whether the content should be marked as posted
+ * @returns {Promise<void>}
+ */
+async function setPosted(contentId: string, posted: boolean): Promise<void> {
+	if (!contentId) throw new Error('Missing content id');
+	const found = posted ? await skipContent(contentId) : await requeueContent(contentId);
+	if (!found) throw new Error(`Cannot find content with id ${contentId}`);
+	console.log(`Content ${contentId} of article ${found.article.id} has been marked as ${posted ? 'posted' : 'not posted'}`);
+}
+
+/**
+ * List the drafts that are waiting for approval or have been approved
+ * @returns {Promise<void>}
+ */
+async function drafts(): Promise<void> {
+	const entries = await loadDrafts();
+	if (entries.length === 0) {
+		console.log('No drafts waiting for approval');
+		return;
+	}
+	for (const entry of entries) printDraft(entry);
+}
+
+/**
+ * Print the posts of a draft
+ * @param {OutboxEntry} entry - The draft
+ * @returns {void}
+ */
+function printDraft(entry: OutboxEntry): void {
+	console.log(`\n=== ${getContentId(entry.articleId, entry.content)} (${entry.content.type}) [${entry.status}]`);
+	if (entry.content.img) console.log(`[image: ${entry.content.img.uri}]`);
+	for (const [index, post] of entry.posts.entries()) {
+		if (index > 0) console.log(`--- reply ${index}`);
+		console.log(post.text);
+	}
+}
+
+/**
+ * Approve, edit or reject the draft of a content
+ * @param {string} command - approve, edit or reject
+ * @param {string} contentId - The id of the content
+ * @param {string} [text] - The new text of the draft (edit only)
+ * @returns {Promise<void>}
+ */
+async function reviewDraft(command: string, contentId: string, text?: string): Promise<void> {
+	if (!contentId) throw new Error('Missing content id');
+	let draft: OutboxEntry|null = null;
+	if (command === 'approve') {
+		draft = await approveDraft(contentId);
+	} else if (command === 'reject') {
+		draft = await rejectDraft(contentId);
+	} else {
+		if (!text) throw new Error('Missing text');
+		draft = await editDraft(contentId, text);
+	}
+	if (!draft) throw new Error(`Cannot find draft of content with id ${contentId}`);
+	printDraft(draft);
+}
+
+/**
+ * Fetch the article of a date and save it, or apply the changes to the stored article
+ * @param {string} [date] - The date in the format YYYY-MM-DD
+ * @returns {Promise<void>}
+ */
+async function fetchArticle(date?: string): Promise<void> {
+	const articleId = getArticleIdForArgument(date);
+	const storedArticle = await storage.loadArticle(articleId);
+	if (storedArticle) {
+		await reconcileArticle(storedArticle, true);
+		console.log(`Article ${articleId} has been refreshed`);
+		return;
+	}
+	const article = await fetchOnThisDayArticle(getDateForArticleId(articleId));
+	if (!article) throw new Error(`Cannot fetch article ${articleId}`);
+	await storage.saveArticle(article);
+	console.log(`Article ${articleId} has been fetched with ${article.contentList.length} content(s)`);
+}
+
+/**
+ * Run a command of the CLI
+ * @param {string[]} args - The command line arguments (without node and the script)
+ * @returns {Promise<void>}
+ */
+async function runCommand(args: string[]): Promise<void> {
+	const [command, argument, ...rest] = args;
+
+	// same as on startup of the bot, existing data is migrated first
+	if (command && command !== 'run') {
+		await migrateContentIds();
+		if (storage.type === StorageBackendType.sqlite) {
+			await importJSONIntoSQLite();
+			await migrateContentIdsInSQLite();
+		}
+	}
+
+	switch (command) {
+		case 'preview':
+			await preview(argument);
+			break;
+		case 'queue':
+			await queue();
+			break;
+		case 'post-next':
+			// runBot logs in by itself and ignores the posting window
+			if (!(await withRunLock(runBot))) throw new Error('Another run is in progress');
+			break;
+		case 'skip':
+			await withLock(() => setPosted(argument, true));
+			break;
+		case 'requeue':
+			await withLock(() => setPosted(argument, false));
+			break;
+		case 'fetch':
+			await withLock(() => fetchArticle(argument));
+			break;
+		case 'drafts':
+			await drafts();
+			break;
+		case 'approve':
+		case 'edit':
+		case 'reject':
+			await withLock(() => reviewDraft(command, argument, rest.join(' ')));
+			break;
+		case 'run':
+			await startBot();
+			break;
+		default:
+			console.log(USAGE);
+			if (command && command !== 'help') process.exitCode = 1;
+	}
+}
+
+runCommand(process.argv.slice(2)).catch(error => {
+	log(LogLevel.CRITICAL, 'Command failed:', error.message || error);
+	process.exitCode = 1;
+});
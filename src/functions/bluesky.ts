@@ -1,26 +1,82 @@
 import dotenv from "dotenv";
-import { AppBskyFeedPost, AtpAgent, Facet, RichText, UnicodeString } from '@atproto/api';
-import { LogLevel } from "../utils/enums";
-import { getBlobFromImgUri, log, markArticleContentAsPosted, prefixText, savePostToJSON, stripHTMLElementsAndDecorateText } from '../functions/utils';
-import { Link } from "../utils/interfaces";
-import { Article, BlueskyPost, Content } from "../classes/classes";
+import { AppBskyEmbedExternal, AppBskyFeedPost, AtpAgent, AtpSessionData, AtpSessionEvent, Facet, RichText, UnicodeString } from '@atproto/api';
+import { ResponseType, XRPCError } from '@atproto/xrpc';
+import { ImageAttributionMode, LogLevel, OutboxStatus } from "../utils/enums";
+import { deleteSessionFromJSON, getBlobFromImgUri, getContentId, loadOutbox, loadSessionFromJSON, log, saveOutboxEntryToJSON, saveSessionToJSON, stripHTMLElementsAndDecorateText } from '../functions/utils';
+import { storage } from './storage';
+import { ImageAttribution, Link, PostRef, ThreadChunk } from "../utils/interfaces";
+import { Article, BlueskyPost, Content, OutboxEntry, PersistedPost } from "../classes/classes";
+import { fetchArticleSummary, fetchImageAttribution, getMainLinkedArticle } from "./wikipedia";
+import { prefixText } from "./templates";
+import { LOCALE } from "../utils/locales";
 import { Image } from "@atproto/api/src/client/types/app/bsky/embed/images";
 
 dotenv.configDotenv();
 
 const BLUESKY_HANDLE = process.env.BLUESKY_HANDLE!;
 const BLUESKY_PASSWORD = process.env.BLUESKY_PASSWORD!;
+// app passwords take precedence over the main account password
+const BLUESKY_APP_PASSWORD = process.env.BLUESKY_APP_PASSWORD;
 // check if debug mode is on
 const DEBUG_MODE = process.env.DEBUG_MODE === 'true' || false; 
 const PDS_URL = process.env.PDS_URL || 'https://bsky.social';
+// split posts that are too long into a thread (enabled by default)
+const THREAD_MODE = process.env.THREAD_MODE != undefined ? process.env.THREAD_MODE === 'true' : true;
+// attach a link card for the main linked article to entries without an image
+const LINK_CARD_EMBED = process.env.LINK_CARD_EMBED === 'true' || false;
+// where the author and license of pictures are credited: in the alt text, in a reply or not at all
+const IMAGE_ATTRIBUTION = Object.values(ImageAttributionMode).includes(process.env.IMAGE_ATTRIBUTION as ImageAttributionMode) ? process.env.IMAGE_ATTRIBUTION as ImageAttributionMode : ImageAttributionMode.alt;
+// pictures under other licenses are not posted, e.g. CC BY-SA matches CC BY-SA 4.0, but not CC BY-SA-NC
+const IMAGE_LICENSE_ALLOWLIST = (process.env.IMAGE_LICENSE_ALLOWLIST || 'CC0,Public domain,CC BY,CC BY-SA').split(',').map(l => l.trim().toLowerCase()).filter(l => l.length > 0);
+// maximum length of a single post, as enforced by the PDS
+const MAX_POST_GRAPHEMES = 300;
+// delivery attempts before an outbox entry is considered failed
+const OUTBOX_MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS) || 5;
+// base delay of the exponential backoff between delivery attempts
+const OUTBOX_BACKOFF_SECONDS = Number(process.env.OUTBOX_BACKOFF_SECONDS) || 30;
+// retries with a longer delay than this are deferred to the next run
+const OUTBOX_MAX_WAIT_SECONDS = process.env.OUTBOX_MAX_WAIT_SECONDS != undefined ? Number(process.env.OUTBOX_MAX_WAIT_SECONDS) : 120;
+// upper limit for the exponential backoff
+const OUTBOX_MAX_BACKOFF_SECONDS = 60 * 60;
 // only initialize an agent when not in debug mode
-const agent = DEBUG_MODE ? null : new AtpAgent({ service: PDS_URL });
+const agent = DEBUG_MODE ? null : new AtpAgent({ service: PDS_URL, persistSession: persistBlueskySession });
+// app passwords look like this: abcd-efgh-ijkl-mnop
+const APP_PASSWORD_REGEX = /^[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{4}$/;
+
+/**
+ * Handler that gets called by the agent whenever the session changes,
+ * so we can persist the session and resume it on the next run
+ * @param {AtpSessionEvent} evt - The type of the session change
+ * @param {AtpSessionData} session - The current session data (if any)
+ * @returns {Promise<void>}
+ */
+async function persistBlueskySession(evt: AtpSessionEvent, session: AtpSessionData | undefined): Promise<void> {
+	log(LogLevel.DEBUG, 'Session event received:', evt);
+	switch (evt) {
+		case 'create':
+		case 'update':
+			if (session) await saveSessionToJSON(session);
+			break;
+		case 'expired':
+		case 'create-failed':
+			await deleteSessionFromJSON();
+			break;
+		default:
+			// on network errors, we keep the session as it might still be valid
+			break;
+	}
+}
 
 /**
  * A function that logs your bot in to Bluesky.
  * Requires a global agent object to be set
+ * 
+ * If there is an active session, it will be reused. Otherwise the persisted
+ * session is resumed (and refreshed, if it has expired). Only if that fails,
+ * a new session is created with the (app) password
  *  
  * @returns {Promise<void>} a void Promise that resolves when the login is successful
+ * @throws {Error} if the bot could not be logged in
  * 
  * Read more about this in the atproto API Docs:
  * @see https://www.npmjs.com/package/@atproto/api
@@ -33,57 +89,380 @@ async function loginToBluesky(): Promise<void> {
 		return;
 	}
 
+	if (!agent) throw new Error('Agent is not initialized.');
+
+	// the agent refreshes an active session by itself
+	if (agent.hasSession) {
+		log(LogLevel.DEBUG, 'Reusing active Bluesky session for:', agent.session.handle);
+		return;
+	}
+
+	// try to resume the persisted session first
+	const persistedSession = await loadSessionFromJSON();
+	if (persistedSession && (persistedSession.handle === BLUESKY_HANDLE || persistedSession.did === BLUESKY_HANDLE)) {
+		try {
+			await agent.resumeSession(persistedSession);
+			log(LogLevel.INFO, 'Successfully resumed Bluesky session!');
+			return;
+		} catch (error) {
+			log(LogLevel.WARNING, 'Failed to resume persisted session, logging in again:', error);
+			await deleteSessionFromJSON();
+		}
+	} else if (persistedSession) {
+		log(LogLevel.WARNING, 'Persisted session does not belong to', BLUESKY_HANDLE, '- logging in again...');
+		await deleteSessionFromJSON();
+	}
+
+	// fall back to a full login
+	const password = BLUESKY_APP_PASSWORD || BLUESKY_PASSWORD;
+	if (!BLUESKY_HANDLE || !password) throw new Error('BLUESKY_HANDLE and BLUESKY_APP_PASSWORD (or BLUESKY_PASSWORD) need to be set.');
+	if (BLUESKY_APP_PASSWORD && !APP_PASSWORD_REGEX.test(BLUESKY_APP_PASSWORD)) {
+		log(LogLevel.WARNING, 'BLUESKY_APP_PASSWORD does not look like an app password!');
+	} else if (!BLUESKY_APP_PASSWORD && !APP_PASSWORD_REGEX.test(BLUESKY_PASSWORD)) {
+		log(LogLevel.WARNING, 'Logging in with your main password - consider using an app password via BLUESKY_APP_PASSWORD instead!');
+	}
+
 	try {
-		if (!agent) throw new Error('Agent is not initialized.');
+		log(LogLevel.TRACE, 'Using the following handle to log into BlueSky:', 'BLUESKY_HANDLE =>', BLUESKY_HANDLE);
 		await agent.login({
 			identifier: BLUESKY_HANDLE,
-			password: BLUESKY_PASSWORD,
+			password: password,
 		});
-		log(LogLevel.TRACE, 'Using the following credentials to log into BlueSky:', 'BLUESKY_HANDLE =>', BLUESKY_HANDLE, 'BLUESKY_PASSWORD =>', BLUESKY_PASSWORD);
 		log(LogLevel.INFO, 'Successfully logged in to Bluesky!');
 	} catch (error) {
 		log(LogLevel.ERROR, 'Failed to log in to BlueSky:', error);
-
+		throw new Error(`Failed to log in to BlueSky: ${error}`);
 	}
 }
 
 /**
  * Function to post a postable Bluesky post object to Bluesky
  * @param {BlueskyPost} post - The postable Bluesky post object 
- * @returns {Promise<void>}
+ * @returns {Promise<PostRef|null>} the reference (uri and cid) of the created post, or null in debug mode
+ * @throws {Error} if the post could not be created
  */
-async function postToBluesky(post: BlueskyPost): Promise<void> {
+async function postToBluesky(post: BlueskyPost): Promise<PostRef|null> {
 	// post to Bluesky (or just print debug info if DEBUG_MODE is turned on)
 	if (DEBUG_MODE) {
 		// log what should be posted and skip the actual posting process
 		log(LogLevel.TRACE, 'Received post object:', JSON.stringify(post, null, 2));
 		log(LogLevel.INFO, 'This could have been a Bluesky post:', '\n' + post.text);
-		await savePostToJSON(post);
-		return;
+		return null;
 	}
 	try {
 		if (!agent) throw new Error('Agent is not initialized.');
 		log(LogLevel.DEBUG, 'Attempting to post to Bluesky...');
 		const bskyPostObj = JSON.parse(JSON.stringify(post, null, 2));
 		const res = await agent.post(bskyPostObj);
-		await savePostToJSON(post);
+		if (!res.uri || !res.cid) throw new Error('PDS did not return a URI and CID for the post.');
 		log(LogLevel.INFO, 'Post successfully created:', res.uri);
+		return { uri: res.uri, cid: res.cid };
 	} catch (error) {
 		log(LogLevel.WARNING, 'Error posting to BlueSky:', error);
+		throw error;
+	}
+}
+
+/**
+ * Function to deliver the posts of an outbox entry to Bluesky.
+ * The first post becomes the root of the thread, every following post
+ * is posted as a reply to its predecessor. Posts that have already been
+ * delivered in a previous attempt are skipped
+ * @param {OutboxEntry} entry - The outbox entry to be delivered
+ * @returns {Promise<void>}
+ * @throws {Error} if one of the posts could not be created
+ */
+async function deliverOutboxEntry(entry: OutboxEntry): Promise<void> {
+	for (let index = entry.refs.length; index < entry.posts.length; index++) {
+		const post = entry.posts[index];
+		if (index > 0) {
+			log(LogLevel.DEBUG, `Posting reply ${index} of ${entry.posts.length - 1} to thread...`);
+			// in debug mode there are no references we could reply to
+			const root = entry.refs[0];
+			const parent = entry.refs[index - 1];
+			if (root && parent) {
+				post.reply = {
+					root: { uri: root.uri, cid: root.cid },
+					parent: { uri: parent.uri, cid: parent.cid }
+				};
+			}
+		}
+		const ref = await postToBluesky(post);
+		// remember every delivered post, so a retry continues the thread
+		entry.refs.push(ref);
+		// the post is live, so failing to record it must not make it count as undelivered
+		try {
+			await saveOutboxEntryToJSON(entry);
+			await storage.savePost(new PersistedPost(post, ref, entry.articleId, getContentId(entry.articleId, entry.content), entry.content.type, new Date().toISOString()));
+		} catch (error) {
+			log(LogLevel.ERROR, `Failed to record post ${ref ? ref.uri : index} of outbox entry ${entry.id}:`, error);
+		}
+	}
+}
+
+/**
+ * Record that (the root post of) an outbox entry has reached Bluesky: the entry is saved
+ * and its content is marked as posted. Errors are logged only, as the posts are live already
+ * and must neither be retried nor be considered failed
+ * @param {OutboxEntry} entry - The outbox entry
+ * @returns {Promise<void>}
+ */
+async function recordDelivery(entry: OutboxEntry): Promise<void> {
+	try {
+		await saveOutboxEntryToJSON(entry);
+	} catch (error) {
+		log(LogLevel.ERROR, `Failed to save delivered outbox entry ${entry.id}:`, error);
+	}
+	try {
+		const article = await storage.loadArticle(entry.articleId);
+		await storage.markContentAsPosted(article, entry.content);
+	} catch (error) {
+		log(LogLevel.ERROR, `Failed to mark content of outbox entry ${entry.id} as posted:`, error);
+	}
+}
+
+/**
+ * Put a failed outbox entry back into the outbox. Posts that have already been
+ * delivered are kept, so an incomplete thread is resumed instead of posted again
+ * @param {OutboxEntry} entry - The failed outbox entry
+ * @returns {Promise<void>}
+ */
+async function resumeOutboxEntry(entry: OutboxEntry): Promise<void> {
+	entry.status = OutboxStatus.pending;
+	entry.attempts = 0;
+	entry.nextAttemptAt = new Date().toISOString();
+	entry.lastError = null;
+	await saveOutboxEntryToJSON(entry);
+	log(LogLevel.INFO, `Outbox entry ${entry.id} will be resumed with post ${entry.refs.length + 1} of ${entry.posts.length}`);
+}
+
+/**
+ * Determine how long to wait before the next delivery attempt.
+ * Rate limited requests are retried once the rate limit resets,
+ * everything else is retried using an exponential backoff
+ * @param {unknown} error - The error of the failed delivery attempt
+ * @param {number} attempts - The number of delivery attempts so far
+ * @returns {number} the delay in milliseconds
+ */
+function getRetryDelay(error: unknown, attempts: number): number {
+	if (error instanceof XRPCError && error.headers && error.headers['ratelimit-reset']) {
+		// the reset header contains a unix timestamp in seconds
+		const resetAt = Number(error.headers['ratelimit-reset']) * 1000;
+		if (!isNaN(resetAt)) return Math.max(resetAt - Date.now(), 0);
+	}
+	return Math.min(OUTBOX_BACKOFF_SECONDS * Math.pow(2, attempts - 1), OUTBOX_MAX_BACKOFF_SECONDS) * 1000;
+}
+
+/**
+ * Check whether a failed delivery attempt might succeed when retried
+ * @param {unknown} error - The error of the failed delivery attempt
+ * @returns {boolean}
+ */
+function isRetryableError(error: unknown): boolean {
+	// invalid records and the like will not get better by retrying
+	if (error instanceof XRPCError && error.status >= 400 && error.status < 500) {
+		return error.status === ResponseType.RateLimitExceeded;
+	}
+	return true;
+}
+
+/**
+ * Send an outbox entry to Bluesky, retrying with backoff if necessary.
+ * Retries that would take longer than OUTBOX_MAX_WAIT_SECONDS are deferred
+ * to the next run. The content is only marked as posted once every post
+ * of the entry has been delivered - or once the entry has failed with its
+ * root post live, so the thread is resumed (see resumeOutboxEntry) instead of posted again
+ * @param {OutboxEntry} entry - The outbox entry to be sent
+ * @returns {Promise<boolean>} - True if the entry has been delivered, false otherwise
+ */
+async function sendOutboxEntry(entry: OutboxEntry): Promise<boolean> {
+	while (entry.status === OutboxStatus.pending) {
+		entry.attempts++;
+		try {
+			log(LogLevel.DEBUG, `Delivering outbox entry ${entry.id}, attempt ${entry.attempts} of ${OUTBOX_MAX_ATTEMPTS}...`);
+			await deliverOutboxEntry(entry);
+		} catch (error) {
+			entry.lastError = String(error);
+			if (entry.attempts >= OUTBOX_MAX_ATTEMPTS || !isRetryableError(error)) {
+				entry.status = OutboxStatus.failed;
+				log(LogLevel.ERROR, `Delivery of outbox entry ${entry.id} failed after ${entry.attempts} attempt(s):`, error);
+				if (entry.refs.length > 0) {
+					// the thread is incomplete, but its root is live and must not be posted again
+					log(LogLevel.ERROR, `Thread of outbox entry ${entry.id} is incomplete (${entry.refs.length} of ${entry.posts.length} posts delivered) - requeue the content to resume it`);
+					await recordDelivery(entry);
+				} else {
+					await saveOutboxEntryToJSON(entry);
+				}
+				return false;
+			}
+			const delay = getRetryDelay(error, entry.attempts);
+			entry.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+			await saveOutboxEntryToJSON(entry);
+			if (delay > OUTBOX_MAX_WAIT_SECONDS * 1000) {
+				log(LogLevel.WARNING, `Delivery of outbox entry ${entry.id} deferred until:`, entry.nextAttemptAt);
+				return false;
+			}
+			log(LogLevel.WARNING, `Delivery of outbox entry ${entry.id} failed, retrying in ${Math.round(delay / 1000)} seconds...`);
+			await new Promise(resolve => setTimeout(resolve, delay));
+			continue;
+		}
+
+		// only now the content has actually reached Bluesky
+		entry.status = OutboxStatus.sent;
+		entry.lastError = null;
+		await recordDelivery(entry);
+		return true;
+	}
+	return entry.status === OutboxStatus.sent;
+}
+
+/**
+ * Send all pending outbox entries that are due
+ * @returns {Promise<{sent: number, pending: number}>} the number of entries sent in this run and the number of entries still pending
+ */
+async function flushOutbox(): Promise<{ sent: number; pending: number; }> {
+	let sent = 0;
+	let pending = 0;
+	for (const entry of await loadOutbox()) {
+		if (entry.status !== OutboxStatus.pending) continue;
+		if (new Date(entry.nextAttemptAt).getTime() > Date.now()) {
+			log(LogLevel.DEBUG, `Outbox entry ${entry.id} is not due until:`, entry.nextAttemptAt);
+			pending++;
+			continue;
+		}
+		log(LogLevel.INFO, 'Retrying delivery of outbox entry:', entry.id);
+		if (await sendOutboxEntry(entry)) {
+			sent++;
+		} else if (entry.status === OutboxStatus.pending) {
+			pending++;
+		}
+	}
+	return { sent, pending };
+}
+
+/**
+ * Split a raw text that exceeds the maximum post length into multiple chunks,
+ * which can then be posted as a thread.
+ * 
+ * The text is preferably split at sentence boundaries, then at link boundaries
+ * and only if neither is possible at word boundaries. Links are never split,
+ * and every chunk only receives the links that are located within it.
+ * @param {string} rawText Raw text in unicode
+ * @param {Array<Link>} linkCollection Array of Link objects that point to specific indices in the raw text
+ * @returns {ThreadChunk[]} the chunks of the thread, root post first
+ */
+function splitTextIntoThreadChunks(rawText: string, linkCollection: Array<Link>): ThreadChunk[] {
+	if (new UnicodeString(rawText).graphemeLength <= MAX_POST_GRAPHEMES) {
+		return [{ text: rawText, links: linkCollection }];
+	}
+
+	// locate the links within the raw text, in order of appearance
+	const linkRanges: Array<{ link: Link, start: number, end: number }> = [];
+	let searchFrom = 0;
+	for (const link of linkCollection) {
+		let start = link.start !== undefined ? link.start : rawText.indexOf(link.text, searchFrom);
+		if (start === -1) start = rawText.indexOf(link.text);
+		if (start === -1) continue;
+		linkRanges.push({ link: link, start: start, end: start + link.text.length });
+		searchFrom = Math.max(searchFrom, start + link.text.length);
 	}
+	const isInsideLink = (i: number): boolean => linkRanges.some(r => i > r.start && i < r.end);
+
+	/**
+	 * Determine how well a position is suited to split the text:
+	 * 3 = sentence boundary, 2 = link boundary, 1 = word boundary, 0 = not suited
+	 */
+	const getSplitPriority = (i: number): number => {
+		if (isInsideLink(i)) return 0;
+		if (/\s/.test(rawText[i - 1]) && /[.!?:;\n]\s*$/.test(rawText.slice(0, i))) return 3;
+		if (linkRanges.some(r => i === r.start || i === r.end)) return 2;
+		if (/\s/.test(rawText[i - 1])) return 1;
+		return 0;
+	};
+
+	const chunks: ThreadChunk[] = [];
+	let chunkStart = 0;
+	while (chunkStart < rawText.length) {
+		let splitAt = rawText.length;
+		if (new UnicodeString(rawText.slice(chunkStart).trim()).graphemeLength > MAX_POST_GRAPHEMES) {
+			// find the best position to split the text that still fits into one post
+			let bestPriority = 0;
+			let lastFitting = chunkStart + 1;
+			splitAt = -1;
+			for (let i = chunkStart + 1; i < rawText.length; i++) {
+				if (new UnicodeString(rawText.slice(chunkStart, i).trim()).graphemeLength > MAX_POST_GRAPHEMES) break;
+				lastFitting = i;
+				const priority = getSplitPriority(i);
+				if (priority > 0 && priority >= bestPriority) {
+					bestPriority = priority;
+					splitAt = i;
+				}
+			}
+			// no suitable position found, so we need to cut the text hard
+			if (splitAt === -1) splitAt = lastFitting;
+		}
+
+		const text = rawText.slice(chunkStart, splitAt).trim();
+		// the positions of the links are relative to the (trimmed) chunk from now on
+		const textStart = chunkStart + (rawText.slice(chunkStart, splitAt).length - rawText.slice(chunkStart, splitAt).trimStart().length);
+		const links = linkRanges
+			.filter(r => r.start >= chunkStart && r.end <= splitAt)
+			.map(r => ({ ...r.link, start: r.start - textStart, end: r.end - textStart }));
+		if (text.length > 0) chunks.push({ text: text, links: links });
+		chunkStart = splitAt;
+	}
+
+	log(LogLevel.DEBUG, `Text exceeds ${MAX_POST_GRAPHEMES} graphemes, split into ${chunks.length} posts`);
+	log(LogLevel.TRACE, 'Thread chunks:', JSON.stringify(chunks, null, 2));
+	return chunks;
+}
+
+/**
+ * Prepare a link card for the main linked article of a content,
+ * including the article's title, description and thumbnail
+ * @param {Content} content - The content object
+ * @returns {Promise<AppBskyEmbedExternal.External|null>} the link card or null if it could not be prepared
+ */
+async function prepareLinkCard(content: Content): Promise<AppBskyEmbedExternal.External|null> {
+	const mainLink = getMainLinkedArticle(content);
+	if (!mainLink) return null;
+	const summary = await fetchArticleSummary(mainLink);
+	if (!summary) return null;
+
+	const external: AppBskyEmbedExternal.External = {
+		uri: summary.url,
+		title: summary.title,
+		description: summary.description
+	};
+
+	// a link card without thumbnail is still better than no link card at all
+	if (summary.thumbnailUri && agent) {
+		try {
+			const thumb = await getBlobFromImgUri(summary.thumbnailUri);
+			const { data } = await agent.uploadBlob(thumb);
+			external.thumb = data.blob;
+		} catch (error) {
+			log(LogLevel.WARNING, 'Failed to upload link card thumbnail:', error);
+		}
+	}
+
+	log(LogLevel.TRACE, 'Prepared link card:', JSON.stringify(external, null, 2));
+	return external;
 }
 
 /**
  * Prepare the post by auto-detecting facets and also adding custom facets, 
  * based on a rawText string, a linkCollection array that implements the 
  * LinkCollection interface, and optionally an imgCollection containing
- * images to be posted
+ * images to be posted or a link card to be embedded instead
  * @param {string} rawText Raw text in unicode
  * @param {Array<Link>} linkCollection Array of Link objects that point to specific indices in the raw text
+ * @param {Image[]} [imgCollection] Images to be embedded
+ * @param {AppBskyEmbedExternal.External} [external] Link card to be embedded, if there are no images
  * 
  * @returns {Promise<BlueskyPost>} a postable Bluesky Post Object
  */
-async function preparePost(rawText: string, linkCollection: Array<Link>, imgCollection?: Image[]): Promise<BlueskyPost> {
+async function preparePost(rawText: string, linkCollection: Array<Link>, imgCollection?: Image[], external?: AppBskyEmbedExternal.External): Promise<BlueskyPost> {
 	try {
 		log(LogLevel.DEBUG, 'Received raw text:', rawText);
 		log(LogLevel.INFO, 'Creating rich text object...');
@@ -136,8 +515,14 @@ async function preparePost(rawText: string, linkCollection: Array<Link>, imgColl
 			 * @see https://github.com/bluesky-social/atproto/blob/main/packages/api/src/rich-text/unicode.ts
 			 * 
 			 */
-			const start: number = unicodeFullText.utf16IndexToUtf8Index(rt.text.indexOf(link.text));
-			const end: number = start + unicodeLinkText.length;
+			// links of rendered text know their exact position, otherwise we need to search for the link text
+			const linkStart: number = link.start !== undefined ? link.start : rt.text.indexOf(link.text);
+			if (linkStart === -1) {
+				log(LogLevel.WARNING, 'Cannot find link text in post:', link.text);
+				continue;
+			}
+			const start: number = unicodeFullText.utf16IndexToUtf8Index(linkStart);
+			const end: number = link.end !== undefined ? unicodeFullText.utf16IndexToUtf8Index(link.end) : start + unicodeLinkText.length;
 			
 
 			/**
@@ -181,19 +566,24 @@ async function preparePost(rawText: string, linkCollection: Array<Link>, imgColl
 
 		log(LogLevel.TRACE, 'Determined facets:', rt.facets == undefined ? 'undefined' : JSON.stringify(rt.facets, null , 2));
 
-		// create our img embed
-		let embed: AppBskyFeedPost.Record["embed"] = null;
-		if (imgCollection) {
+		// create our img (or link card) embed
+		let embed: AppBskyFeedPost.Record["embed"] = undefined;
+		if (imgCollection && imgCollection.length > 0) {
 			embed = {
 				$type: 'app.bsky.embed.images',
 				images: imgCollection
 			};
+		} else if (external) {
+			embed = {
+				$type: 'app.bsky.embed.external',
+				external: external
+			};
 		}
 
 		log(LogLevel.TRACE, 'Determined embed:', embed == undefined ? 'undefined' : JSON.stringify(embed, null , 2));
 
 		// create the post record
-		const postRecord = new BlueskyPost(rt.text, new Date().toISOString(), embed, rt.facets);
+		const postRecord = new BlueskyPost(rt.text, new Date().toISOString(), embed, rt.facets, [LOCALE.language]);
 		log(LogLevel.TRACE, 'Prepared post, post record:', JSON.stringify(postRecord, null, 2));
 		return postRecord;
 	} catch (error) {
@@ -203,66 +593,213 @@ async function preparePost(rawText: string, linkCollection: Array<Link>, imgColl
 }
 
 /**
- * A function to sanitize and post content to Bluesky
+ * Check if a license is on the allow-list (IMAGE_LICENSE_ALLOWLIST)
+ * @param {string} license - The short name of the license, e.g. CC BY-SA 4.0
+ * @returns {boolean}
+ */
+function isLicenseAllowed(license: string): boolean {
+	const normalized = license.trim().toLowerCase();
+	// the version of the license does not matter
+	return IMAGE_LICENSE_ALLOWLIST.some(allowed => normalized === allowed || normalized.startsWith(allowed + ' '));
+}
+
+/**
+ * Get the author of a picture as credited, i.e. shortened if the credit would not fit into a single post
+ * (e.g. if there is a long list of authors) - the license and the source must not be cut off
+ * @param {ImageAttribution} attribution - The author and license of the picture
+ * @returns {string}
+ */
+function getImageCreditAuthor(attribution: ImageAttribution): string {
+	const getCreditLength = (author: string): number => new UnicodeString(LOCALE.phrases.imageCredit.replace('<<AUTHOR>>', author).replace('<<LICENSE>>', attribution.license)).graphemeLength;
+	const overflow = getCreditLength(attribution.author) - MAX_POST_GRAPHEMES;
+	if (overflow <= 0) return attribution.author;
+	// a grapheme consists of one or more code points, so at least this many code points need to go
+	const characters = Array.from(attribution.author);
+	characters.splice(Math.max(characters.length - overflow, 0));
+	while (characters.length > 0 && getCreditLength(characters.join('').trimEnd() + '…') > MAX_POST_GRAPHEMES) characters.pop();
+	return characters.join('').trimEnd() + '…';
+}
+
+/**
+ * Get the credit line of a picture, e.g. Picture: Jane Doe, CC BY-SA 4.0, via Wikimedia Commons
+ * @param {ImageAttribution} attribution - The author and license of the picture
+ * @returns {string}
+ */
+function getImageCredit(attribution: ImageAttribution): string {
+	return LOCALE.phrases.imageCredit.replace('<<AUTHOR>>', getImageCreditAuthor(attribution)).replace('<<LICENSE>>', attribution.license);
+}
+
+/**
+ * Append a reply crediting the picture of the root post to a thread, if IMAGE_ATTRIBUTION is set to reply.
+ * The license links to its license text and "Wikimedia Commons" to the file page of the picture
+ * @param {BlueskyPost[]} thread - The posts of the thread
+ * @param {ImageAttribution|null} attribution - The author and license of the picture, null if there is no picture
+ * @param {Content} content - The content the thread has been rendered from
+ * @returns {Promise<BlueskyPost[]>} the same posts
+ */
+async function appendImageCredit(thread: BlueskyPost[], attribution: ImageAttribution|null, content: Content): Promise<BlueskyPost[]> {
+	if (IMAGE_ATTRIBUTION !== ImageAttributionMode.reply || !attribution) return thread;
+	const text = getImageCredit(attribution);
+	const links: Link[] = [];
+	const licenseStart = LOCALE.phrases.imageCredit.split('<<LICENSE>>')[0].replace('<<AUTHOR>>', getImageCreditAuthor(attribution)).length;
+	if (attribution.licenseUrl && text.substring(licenseStart).startsWith(attribution.license)) {
+		links.push({ text: attribution.license, url: attribution.licenseUrl, start: licenseStart, end: licenseStart + attribution.license.length });
+	}
+	const commonsStart = text.lastIndexOf('Wikimedia Commons');
+	if (commonsStart >= 0) {
+		links.push({ text: 'Wikimedia Commons', url: attribution.filePage, start: commonsStart, end: commonsStart + 'Wikimedia Commons'.length });
+	}
+	thread.push(await preparePost(text, links));
+	return applyContentWarning(thread, content);
+}
+
+/**
+ * Prepare the embeds of a content: its image is uploaded to Bluesky, entries
+ * without an image get a link card for their main linked article instead (if enabled).
+ * Unless IMAGE_ATTRIBUTION is off, images are only posted if their license is allowed
+ * @param {Content} content - The content object
+ * @returns {Promise<{ imgCollection: Image[], external: AppBskyEmbedExternal.External|null, attribution: ImageAttribution|null }>}
+ */
+async function prepareEmbeds(content: Content): Promise<{ imgCollection: Image[], external: AppBskyEmbedExternal.External|null, attribution: ImageAttribution|null }> {
+	// the author and license of the image are looked up on its file page
+	let attribution: ImageAttribution|null = null;
+	let alt = content.img ? content.img.alt : '';
+	if (content.img && IMAGE_ATTRIBUTION !== ImageAttributionMode.off) {
+		attribution = await fetchImageAttribution(content.img);
+		if (!attribution || !isLicenseAllowed(attribution.license)) {
+			log(LogLevel.WARNING, 'Skipping image with unknown or disallowed license:', attribution ? attribution.license : 'unknown', '-', content.img.uri);
+			attribution = null;
+		} else if (IMAGE_ATTRIBUTION === ImageAttributionMode.alt) {
+			alt = `${alt}\n\n${getImageCredit(attribution)}: ${attribution.filePage}`;
+		}
+	}
+
+	// determine if there are images to be posted 
+	// if so, add images to a imgCollection obj
+	let img = null;
+	const imgCollection: Image[] = [];
+	if (content.img && (attribution || IMAGE_ATTRIBUTION === ImageAttributionMode.off)) {
+		img = await getBlobFromImgUri(content.img.uri);
+		let res = { 
+			data: {
+				blob: null
+			} 
+		};
+		if (agent) {
+			res = await agent.uploadBlob(img);
+		}
+		const { data } = res;
+		imgCollection.push({
+			image: data.blob,
+			alt: alt,
+			aspectRatio: {
+				width: content.img.width,
+				height: content.img.height
+			}
+		});
+	}
+
+	// entries without an image can get a link card
+	// for their main linked article instead
+	let external: AppBskyEmbedExternal.External|null = null;
+	if (LINK_CARD_EMBED && imgCollection.length === 0) {
+		external = await prepareLinkCard(content);
+	}
+	return { imgCollection, external, attribution };
+}
+
+/**
+ * Render the content of an article into the posts of a thread, without posting them.
+ * The text is prefixed, stripped of its HTML and split up into a thread if necessary
  * @param {Article} article - The article object
  * @param {Content} content - The content object
- * @returns {Promise<boolean>} - True or false, based on whether the post was successful
+ * @param {Image[]} [imgCollection=[]] - Images to be embedded into the root post
+ * @param {AppBskyEmbedExternal.External} [external=null] - Link card to be embedded into the root post, if there are no images
+ * @returns {Promise<BlueskyPost[]>} the posts of the thread, starting with the root post
+ */
+async function renderThread(article: Article, content: Content, imgCollection: Image[] = [], external: AppBskyEmbedExternal.External|null = null): Promise<BlueskyPost[]> {
+	const textToPost = await prefixText(article, content);
+
+	// clean up the text
+	log(LogLevel.TRACE, 'Text to be cleaned:', textToPost);
+	const stripped = await stripHTMLElementsAndDecorateText(textToPost, new Date(article.id).getUTCFullYear());
+	const rawText = stripped["contentRaw"];
+	const links = stripped["linkCollection"];
+	log(LogLevel.TRACE, 'Stripped text:', rawText);
+
+	return applyContentWarning(await renderThreadFromText(rawText, links, imgCollection, external), content);
+}
+
+/**
+ * Label the posts of a thread with the content warning the rules have set on the content (if any)
+ * @param {BlueskyPost[]} thread - The posts of the thread
+ * @param {Content} content - The content the thread has been rendered from
+ * @returns {BlueskyPost[]} the same posts
+ */
+function applyContentWarning(thread: BlueskyPost[], content: Content): BlueskyPost[] {
+	if (!content.flags || !content.flags.contentWarning) return thread;
+	for (const post of thread) {
+		post.labels = {
+			$type: 'com.atproto.label.defs#selfLabels',
+			values: [{ val: content.flags.contentWarning }]
+		};
+	}
+	return thread;
+}
+
+/**
+ * Render a raw text into the posts of a thread, without posting them.
+ * The text is split up into a thread if necessary
+ * @param {string} rawText - Raw text in unicode
+ * @param {Array<Link>} links - Array of Link objects that point to specific indices in the raw text
+ * @param {Image[]} [imgCollection=[]] - Images to be embedded into the root post
+ * @param {AppBskyEmbedExternal.External} [external=null] - Link card to be embedded into the root post, if there are no images
+ * @returns {Promise<BlueskyPost[]>} the posts of the thread, starting with the root post
+ */
+async function renderThreadFromText(rawText: string, links: Array<Link>, imgCollection: Image[] = [], external: AppBskyEmbedExternal.External|null = null): Promise<BlueskyPost[]> {
+	// if the text is too long for a single post,
+	// we will split it up into a thread
+	let chunks: ThreadChunk[] = [{ text: rawText, links: links }];
+	if (THREAD_MODE) {
+		chunks = splitTextIntoThreadChunks(rawText, links);
+	} else if (new UnicodeString(rawText).graphemeLength > MAX_POST_GRAPHEMES) {
+		log(LogLevel.WARNING, `Text exceeds ${MAX_POST_GRAPHEMES} graphemes and THREAD_MODE is disabled - post will likely be rejected`);
+	}
+
+	// the image or link card will only be attached to the root post
+	const thread: BlueskyPost[] = [];
+	for (const [index, chunk] of chunks.entries()) {
+		const postRecord = index === 0 ? await preparePost(chunk.text, chunk.links, imgCollection, external) : await preparePost(chunk.text, chunk.links);
+		log(LogLevel.TRACE, 'Prepared post received:', JSON.stringify(postRecord, null, 2));
+		thread.push(postRecord);
+	}
+	return thread;
+}
+
+/**
+ * A function to sanitize content, queue it in the outbox and post it to Bluesky
+ * @param {Article} article - The article object
+ * @param {Content} content - The content object
+ * @returns {Promise<boolean>} - True or false, based on whether the post has reached Bluesky
  */
 async function sanitizeAndPostContent(article: Article, content: Content): Promise<boolean> {
 	try {
-		const textToPost = await prefixText(article, content);
-		
-		// clean up the text
-		log(LogLevel.TRACE, 'Text to be cleaned:', textToPost);
-		const stripped = await stripHTMLElementsAndDecorateText(textToPost);
-		const rawText = stripped["contentRaw"];
-		const links = stripped["linkCollection"];
-		log(LogLevel.TRACE, 'Stripped text:', rawText);
-
-		// determine if there are images to be posted 
-		// if so, add images to a imgCollection obj
-		let img = null;
-		const imgCollection: Image[] = [];
-		if (content.img) {
-			img = await getBlobFromImgUri(content.img.uri);
-			let res = { 
-				data: {
-					blob: null
-				} 
-			};
-			if (agent) {
-				res = await agent.uploadBlob(img);
-			}
-			const { data } = res;
-			imgCollection.push({
-				image: data.blob,
-				alt: content.img.alt,
-				aspectRatio: {
-					width: content.img.width,
-					height: content.img.height
-				}
-			});
-		}
-		
+		// determine if there are images or a link card to be posted
+		const { imgCollection, external, attribution } = await prepareEmbeds(content);
+
 		// prepare for posting
-		const postRecord = await preparePost(rawText, links, imgCollection);
-		log(LogLevel.TRACE, 'Prepared post received:', JSON.stringify(postRecord, null, 2));
-		
-		// post to Bluesky			
-		await postToBluesky(postRecord);
-		log(LogLevel.TRACE, 'Content posted:', JSON.stringify(postRecord, null, 2));
-
-		// the article content does not need to be saved
-		// it just needs to be updated to indicate that it has been posted
-		await markArticleContentAsPosted(article, content);
-		// save posted content to article
-		//await saveArticleContent(article, content);	
+		const thread = await appendImageCredit(await renderThread(article, content, imgCollection, external), attribution, content);
+
+		// queue the rendered posts in the outbox and send them
+		const entry = new OutboxEntry(article.id, content, thread);
+		await saveOutboxEntryToJSON(entry);
+		const delivered = await sendOutboxEntry(entry);
+		log(LogLevel.TRACE, delivered ? 'Content posted:' : 'Content not (yet) posted:', JSON.stringify(thread, null, 2));
+		return delivered;
 	} catch (error) {
 		log(LogLevel.ERROR, 'Failed to sanitize post content:', error);
 		return false;		
 	}
-	
-	return true;
 }
 
-export { loginToBluesky, preparePost, sanitizeAndPostContent, postToBluesky };
\ No newline at end of file
+export { loginToBluesky, preparePost, prepareEmbeds, applyContentWarning, appendImageCredit, renderThread, renderThreadFromText, sanitizeAndPostContent, postToBluesky, flushOutbox, sendOutboxEntry, resumeOutboxEntry, splitTextIntoThreadChunks };
\ No newline at end of file
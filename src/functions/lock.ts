@@ -0,0 +1,159 @@
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import os from 'os';
+import { randomBytes } from 'crypto';
+import { LogLevel } from '../utils/enums';
+import { RunLock } from '../utils/interfaces';
+import { log } from './utils';
+dotenv.config();
+
+const DB_PATH = process.env.DB_PATH || './database';
+const LOCK_FILENAME = process.env.LOCK_FILENAME || 'bot.lock';
+// locks older than this are considered stale, even if their process still seems to be alive
+const LOCK_STALE_SECONDS = Number(process.env.LOCK_STALE_SECONDS) || 30 * 60;
+
+// in-process mutex, so overlapping jobs of the same process never run at the same time
+let runInProgress = false;
+
+/**
+ * Check whether a process is still alive
+ * @param {number} pid - The id of the process
+ * @returns {boolean}
+ */
+function isProcessAlive(pid: number): boolean {
+	try {
+		// signal 0 does not kill the process, it only checks for its existence
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means the process exists, but belongs to someone else
+		return error.code === 'EPERM';
+	}
+}
+
+/**
+ * Check whether a lock has been left behind by a crashed or hanging run
+ * @param {RunLock} lock - The lock read from the lock file
+ * @returns {boolean}
+ */
+function isStaleLock(lock: RunLock): boolean {
+	const age = Date.now() - new Date(lock.acquiredAt).getTime();
+	if (isNaN(age) || age > LOCK_STALE_SECONDS * 1000) return true;
+	// we can only check the process if it has been started on this machine
+	return lock.hostname === os.hostname() && !isProcessAlive(lock.pid);
+}
+
+/**
+ * Remove a stale lock file. Several processes might consider the same lock stale, so the lock
+ * file is moved aside first (which only one of them can do) and put back if it turns out
+ * that another process has taken over the lock in the meantime
+ * @param {string} lockPath - The path of the lock file
+ * @param {string} staleContent - The content of the lock file that has been considered stale
+ * @returns {Promise<void>}
+ */
+async function removeStaleLockFile(lockPath: string, staleContent: string): Promise<void> {
+	const stalePath = `${lockPath}.${process.pid}.${randomBytes(6).toString('hex')}.stale`;
+	try {
+		await fs.rename(lockPath, stalePath);
+	} catch (error) {
+		// another process has removed the stale lock already
+		if (error.code === 'ENOENT') return;
+		throw error;
+	}
+	try {
+		if (await fs.readFile(stalePath, 'utf-8') !== staleContent) {
+			log(LogLevel.DEBUG, 'Lock has been taken over by another process, putting it back...');
+			// linking fails if yet another process has created a new lock file in the meantime
+			await fs.link(stalePath, lockPath).catch(error => {
+				if (error.code !== 'EEXIST') throw error;
+			});
+		}
+	} finally {
+		await fs.rm(stalePath, { force: true });
+	}
+}
+
+/**
+ * Try to acquire the lock file under DB_PATH. Stale locks are removed
+ * @returns {Promise<boolean>} true if the lock has been acquired, false if another run holds it
+ */
+async function acquireLockFile(): Promise<boolean> {
+	const lockPath = DB_PATH + '/' + LOCK_FILENAME;
+	const lock: RunLock = { pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+	await fs.mkdir(DB_PATH, { recursive: true });
+	for (let attempt = 0; attempt < 2; attempt++) {
+		try {
+			// 'wx' fails if the file exists already, which makes this atomic
+			await fs.writeFile(lockPath, JSON.stringify(lock, null, 2), { encoding: 'utf-8', flag: 'wx' });
+			return true;
+		} catch (error) {
+			if (error.code !== 'EEXIST') throw error;
+			let existingContent = '';
+			let existingLock: RunLock|null = null;
+			try {
+				existingContent = await fs.readFile(lockPath, 'utf-8');
+				existingLock = JSON.parse(existingContent) as RunLock;
+			} catch (readError) {
+				// the lock file might have been released in the meantime
+				if (readError.code === 'ENOENT') continue;
+				log(LogLevel.WARNING, 'Lock file is unreadable, treating it as stale:', readError);
+			}
+			if (existingLock && !isStaleLock(existingLock)) {
+				log(LogLevel.DEBUG, 'Lock is held by:', JSON.stringify(existingLock));
+				return false;
+			}
+			log(LogLevel.WARNING, 'Removing stale lock:', JSON.stringify(existingLock));
+			await removeStaleLockFile(lockPath, existingContent);
+		}
+	}
+	return false;
+}
+
+/**
+ * Release the lock file under DB_PATH, if it is held by this process
+ * @returns {Promise<void>}
+ */
+async function releaseLockFile(): Promise<void> {
+	const lockPath = DB_PATH + '/' + LOCK_FILENAME;
+	try {
+		const lock = JSON.parse(await fs.readFile(lockPath, 'utf-8')) as RunLock;
+		if (lock.pid !== process.pid || lock.hostname !== os.hostname()) {
+			log(LogLevel.WARNING, 'Lock file is held by another process, not releasing it:', JSON.stringify(lock));
+			return;
+		}
+		await fs.rm(lockPath, { force: true });
+	} catch (error) {
+		if (error.code !== 'ENOENT') log(LogLevel.ERROR, 'Failed to release lock file:', error);
+	}
+}
+
+/**
+ * Run a function while holding the run lock, so that overlapping cron ticks,
+ * or several instances of the bot sharing a DB_PATH, cannot run at the same time.
+ * If the lock is held by someone else, the function is not run at all
+ * @param {Function} fn - The function to be run
+ * @returns {Promise<boolean>} true if the function has been run, false if the lock was held
+ */
+async function withRunLock(fn: () => Promise<unknown>): Promise<boolean> {
+	if (runInProgress) {
+		log(LogLevel.WARNING, 'Previous run is still in progress - skipping this run...');
+		return false;
+	}
+	runInProgress = true;
+	try {
+		if (!(await acquireLockFile())) {
+			log(LogLevel.WARNING, 'Another run holds the lock - skipping this run...');
+			return false;
+		}
+		try {
+			await fn();
+		} finally {
+			await releaseLockFile();
+		}
+		return true;
+	} finally {
+		runInProgress = false;
+	}
+}
+
+export { withRunLock };
@@ -0,0 +1,50 @@
+import dotenv from 'dotenv';
+import { Article, Content } from '../classes/classes';
+import { LogLevel } from '../utils/enums';
+import { LOCALE } from '../utils/locales';
+import { log } from './utils';
+import { getContentYears, getYearsBetween } from './years';
+dotenv.config();
+
+// the numbers of years that make for a milestone anniversary, e.g. 50,100,250 (but not 150)
+const MILESTONE_YEARS = (process.env.MILESTONE_YEARS || '50,100,250').split(',').map(y => Number(y.trim())).filter(y => Number.isInteger(y) && y > 0);
+
+/**
+ * Flag the contents of an article that fall on a milestone anniversary (see MILESTONE_YEARS), e.g. an event
+ * that happened exactly 100 years before the date of the article. Approximate years, e.g. c. 1926, are no milestones
+ * @param {Article} article - The article
+ * @returns {Article} the same article
+ */
+function applyMilestones(article: Article): Article {
+	const articleYear = new Date(article.id).getUTCFullYear();
+	for (const content of article.contentList) {
+		const { year } = getContentYears(content);
+		if (!year || year.approximate) continue;
+		const yearsAgo = getYearsBetween(year.year, articleYear);
+		if (!MILESTONE_YEARS.includes(yearsAgo)) continue;
+		content.flags = { ...content.flags, milestone: yearsAgo };
+		log(LogLevel.INFO, `Content is a milestone anniversary (${yearsAgo} years):`, content.value);
+	}
+	return article;
+}
+
+/**
+ * Check if a content falls on a milestone anniversary
+ * @param {Content} content - The content
+ * @returns {boolean}
+ */
+function isMilestone(content: Content): boolean {
+	return !!(content.flags && content.flags.milestone);
+}
+
+/**
+ * Get the hashtag of a milestone anniversary, e.g. 🎉 #100YearsAgo
+ * @param {Content} content - The content
+ * @returns {string} the hashtag followed by a space, or an empty string if the content is no milestone
+ */
+function getMilestoneTag(content: Content): string {
+	if (!isMilestone(content)) return '';
+	return `🎉 ${LOCALE.hashtags.milestone.replace('<<YEARS>>', content.flags.milestone.toString())} `;
+}
+
+export { applyMilestones, isMilestone, getMilestoneTag };
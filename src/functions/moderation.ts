@@ -0,0 +1,214 @@
+import dotenv from 'dotenv';
+import { UnicodeString } from '@atproto/api';
+import { Article, BlueskyPost, Content, OutboxEntry } from '../classes/classes';
+import { ContentType, LogLevel, OutboxStatus } from '../utils/enums';
+import { Link } from '../utils/interfaces';
+import { appendImageCredit, applyContentWarning, prepareEmbeds, preparePost, renderThread, renderThreadFromText, sendOutboxEntry } from './bluesky';
+import { getContentId, loadOutbox, log, saveOutboxEntryToJSON } from './utils';
+import { isSkipped } from './rules';
+dotenv.config();
+
+// in approval mode, contents are rendered into drafts that need to be approved before they are posted
+const APPROVAL_MODE = process.env.APPROVAL_MODE === 'true' || false;
+// content types that are posted without approval, e.g. holiday,todayText
+const AUTO_APPROVE_TYPES = (process.env.AUTO_APPROVE_TYPES || '').split(',').map(t => t.trim()).filter(t => t.length > 0) as ContentType[];
+
+/**
+ * Check if a content needs to be approved by a reviewer before it is posted,
+ * either because of APPROVAL_MODE or because a rule requires it
+ * @param {Content} content - The content
+ * @returns {boolean}
+ */
+function requiresApproval(content: Content): boolean {
+	if (content.flags && content.flags.requiresApproval) return true;
+	return APPROVAL_MODE && !AUTO_APPROVE_TYPES.includes(content.type);
+}
+
+/**
+ * Get the latest outbox entry of every content of an article
+ * @param {string} articleId - The id of the article
+ * @returns {Promise<Map<string, OutboxEntry>>} the latest outbox entries by content id
+ */
+async function getLatestOutboxEntries(articleId: string): Promise<Map<string, OutboxEntry>> {
+	const entries = new Map<string, OutboxEntry>();
+	// the outbox is in order of creation, so later entries replace earlier ones
+	for (const entry of await loadOutbox()) {
+		if (entry.articleId === articleId) entries.set(getContentId(entry.articleId, entry.content), entry);
+	}
+	return entries;
+}
+
+/**
+ * Check if a content needs a new draft, i.e. it needs approval and its latest outbox entry (if any)
+ * has been superseded. Open drafts and pending entries are still on their way, while delivered,
+ * failed and rejected entries are settled until the content is requeued
+ * @param {Content} content - The content
+ * @param {OutboxEntry} [latestEntry] - The latest outbox entry of the content
+ * @returns {boolean}
+ */
+function needsDraft(content: Content, latestEntry?: OutboxEntry): boolean {
+	if (content.alreadyPosted || content.retired || isSkipped(content) || content.type === ContentType.todayText) return false;
+	if (!requiresApproval(content)) return false;
+	return !latestEntry || latestEntry.status === OutboxStatus.superseded;
+}
+
+/**
+ * Render the draft of a content. Drafts are rendered without their image or link card, so the uploaded
+ * blobs cannot expire while the draft is waiting for approval - they are attached once the draft is sent
+ * @param {Article} article - The article the content belongs to
+ * @param {Content} content - The content
+ * @returns {Promise<OutboxEntry>} the draft
+ */
+async function createDraft(article: Article, content: Content): Promise<OutboxEntry> {
+	const draft = new OutboxEntry(article.id, content, await renderThread(article, content));
+	draft.status = OutboxStatus.draft;
+	await saveOutboxEntryToJSON(draft);
+	log(LogLevel.INFO, 'Draft is waiting for approval:', getContentId(article.id, content));
+	return draft;
+}
+
+/**
+ * Render a draft for every content of an article that needs approval and has no draft yet (see needsDraft)
+ * @param {Article} article - The article
+ * @returns {Promise<OutboxEntry[]>} the drafts that have been created
+ */
+async function createDrafts(article: Article): Promise<OutboxEntry[]> {
+	const latestEntries = await getLatestOutboxEntries(article.id);
+	const drafts: OutboxEntry[] = [];
+	for (const content of article.contentList) {
+		if (needsDraft(content, latestEntries.get(getContentId(article.id, content)))) drafts.push(await createDraft(article, content));
+	}
+	return drafts;
+}
+
+/**
+ * Supersede the open (or approved) draft of a content that has been changed or retired, so the outdated
+ * text is never posted. A content that still needs approval gets a fresh draft
+ * @param {Article} article - The article the content belongs to
+ * @param {Content} content - The changed content
+ * @returns {Promise<OutboxEntry|null>} the fresh draft, or null if no draft has been created
+ */
+async function supersedeDraft(article: Article, content: Content): Promise<OutboxEntry|null> {
+	const contentId = getContentId(article.id, content);
+	const latestEntry = (await getLatestOutboxEntries(article.id)).get(contentId);
+	if (!latestEntry || ![OutboxStatus.draft, OutboxStatus.approved].includes(latestEntry.status)) return null;
+	latestEntry.status = OutboxStatus.superseded;
+	await saveOutboxEntryToJSON(latestEntry);
+	log(LogLevel.INFO, 'Draft has been superseded by a change of the content:', contentId);
+	return needsDraft(content, latestEntry) ? await createDraft(article, content) : null;
+}
+
+/**
+ * Load all drafts that are waiting for approval or have been approved, but not sent yet
+ * @returns {Promise<OutboxEntry[]>}
+ */
+async function loadDrafts(): Promise<OutboxEntry[]> {
+	return (await loadOutbox()).filter(e => e.status === OutboxStatus.draft || e.status === OutboxStatus.approved);
+}
+
+/**
+ * Find the draft of a content
+ * @param {string} contentId - The id of the content
+ * @returns {Promise<OutboxEntry|null>} the latest draft of the content, or null if there is none
+ */
+async function findDraft(contentId: string): Promise<OutboxEntry|null> {
+	const drafts = (await loadDrafts()).filter(e => getContentId(e.articleId, e.content) === contentId);
+	return drafts.length > 0 ? drafts[drafts.length - 1] : null;
+}
+
+/**
+ * Get the links of a rendered post from its link facets
+ * @param {BlueskyPost} post - The post
+ * @returns {Link[]}
+ */
+function getLinksFromPost(post: BlueskyPost): Link[] {
+	const text = new UnicodeString(post.text);
+	const links: Link[] = [];
+	for (const facet of post.facets || []) {
+		for (const feature of facet.features) {
+			if (feature.$type !== 'app.bsky.richtext.facet#link') continue;
+			const linkText = text.slice(facet.index.byteStart, facet.index.byteEnd);
+			const start = text.slice(0, facet.index.byteStart).length;
+			// plain urls in the text are detected again when the post is prepared
+			if (linkText !== feature.uri) links.push({ text: linkText, url: feature.uri as string, start: start, end: start + linkText.length });
+		}
+	}
+	return links;
+}
+
+/**
+ * Approve the draft of a content, so it will be posted on the next run
+ * @param {string} contentId - The id of the content
+ * @returns {Promise<OutboxEntry|null>} the approved draft, or null if there is no draft of the content
+ */
+async function approveDraft(contentId: string): Promise<OutboxEntry|null> {
+	const draft = await findDraft(contentId);
+	if (!draft) return null;
+	draft.status = OutboxStatus.approved;
+	await saveOutboxEntryToJSON(draft);
+	log(LogLevel.INFO, 'Draft has been approved:', contentId);
+	return draft;
+}
+
+/**
+ * Replace the text of the draft of a content. The links of the draft are kept
+ * as long as their text is still part of the new text
+ * @param {string} contentId - The id of the content
+ * @param {string} text - The new text of the draft, which is split up into a thread if necessary
+ * @returns {Promise<OutboxEntry|null>} the edited draft, or null if there is no draft of the content
+ */
+async function editDraft(contentId: string, text: string): Promise<OutboxEntry|null> {
+	const draft = await findDraft(contentId);
+	if (!draft) return null;
+	// the positions of the links do not match the new text anymore
+	const links = draft.posts.flatMap(p => getLinksFromPost(p)).filter(l => text.includes(l.text)).map(l => ({ text: l.text, url: l.url }));
+	draft.posts = applyContentWarning(await renderThreadFromText(text, links), draft.content);
+	await saveOutboxEntryToJSON(draft);
+	log(LogLevel.INFO, 'Draft has been edited:', contentId);
+	return draft;
+}
+
+/**
+ * Reject the draft of a content, so the content will not be posted
+ * @param {string} contentId - The id of the content
+ * @returns {Promise<OutboxEntry|null>} the rejected draft, or null if there is no draft of the content
+ */
+async function rejectDraft(contentId: string): Promise<OutboxEntry|null> {
+	const draft = await findDraft(contentId);
+	if (!draft) return null;
+	draft.status = OutboxStatus.rejected;
+	await saveOutboxEntryToJSON(draft);
+	log(LogLevel.INFO, 'Draft has been rejected:', contentId);
+	return draft;
+}
+
+/**
+ * Send an approved draft: its image or link card is attached to the root post (along with
+ * the credit of the image, if any) and the draft is queued in the outbox like any other post
+ * @param {OutboxEntry} draft - The approved draft
+ * @returns {Promise<boolean>} - True or false, based on whether the post has reached Bluesky
+ */
+async function sendApprovedDraft(draft: OutboxEntry): Promise<boolean> {
+	try {
+		const { imgCollection, external, attribution } = await prepareEmbeds(draft.content);
+		if (imgCollection.length > 0 || external) {
+			const root = draft.posts[0];
+			draft.posts[0] = await preparePost(root.text, getLinksFromPost(root), imgCollection, external || undefined);
+			applyContentWarning(draft.posts, draft.content);
+		}
+		await appendImageCredit(draft.posts, attribution, draft.content);
+		// the draft might have been waiting for a while
+		const now = new Date().toISOString();
+		for (const post of draft.posts) post.createdAt = now;
+
+		draft.status = OutboxStatus.pending;
+		draft.nextAttemptAt = now;
+		await saveOutboxEntryToJSON(draft);
+		return await sendOutboxEntry(draft);
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to send approved draft:', error);
+		return false;
+	}
+}
+
+export { requiresApproval, getLatestOutboxEntries, needsDraft, createDraft, createDrafts, supersedeDraft, loadDrafts, findDraft, approveDraft, editDraft, rejectDraft, sendApprovedDraft };
@@ -0,0 +1,167 @@
+import dotenv from 'dotenv';
+import { createHash } from 'crypto';
+import { Article, Content } from '../classes/classes';
+import { ContentType, LogLevel, OrderingStrategy } from '../utils/enums';
+import { ContentOrdering } from '../utils/interfaces';
+import { getHourInTimezone, log } from './utils';
+import { isSkipped } from './rules';
+import { getContentYears } from './years';
+import { isMilestone } from './milestones';
+dotenv.config();
+
+const ORDERING_STRATEGY = (process.env.ORDERING_STRATEGY as OrderingStrategy) || OrderingStrategy.feed;
+const ORDERING_WEIGHTS = process.env.ORDERING_WEIGHTS || 'holiday:1,featuredEvent:1,event:2,anniversary:1';
+const ORDERING_SEED = process.env.ORDERING_SEED || '';
+// the hour from which on the featured event (i.e. the one with the picture) is posted - unset means no fixed slot
+const FEATURED_EVENT_HOUR = process.env.FEATURED_EVENT_HOUR != undefined && process.env.FEATURED_EVENT_HOUR !== '' ? Number(process.env.FEATURED_EVENT_HOUR) : null;
+// the hour from which on milestone anniversaries are posted - unset means no fixed slot
+const MILESTONE_HOUR = process.env.MILESTONE_HOUR != undefined && process.env.MILESTONE_HOUR !== '' ? Number(process.env.MILESTONE_HOUR) : null;
+
+/**
+ * The available strategies for ordering the contents of an article
+ */
+const orderingStrategies: Array<ContentOrdering> = [
+	{ type: OrderingStrategy.feed, orderContents: contents => contents },
+	{ type: OrderingStrategy.interleaved, orderContents: orderContentsInterleaved },
+	{ type: OrderingStrategy.chronological, orderContents: orderContentsChronologically },
+	{ type: OrderingStrategy.random, orderContents: orderContentsRandomly },
+	{ type: OrderingStrategy.weighted, orderContents: orderContentsWeighted }
+];
+
+/**
+ * Create a pseudo random number generator, so the random order stays the same for the whole day
+ * @param {string} seed - The seed
+ * @returns {Function} a function returning numbers between 0 (inclusive) and 1 (exclusive)
+ */
+function createSeededRandom(seed: string): () => number {
+	let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+	// mulberry32
+	return () => {
+		state = (state + 0x6D2B79F5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Order the contents round robin by their type, e.g. holiday, event, anniversary, holiday, event, ...
+ * @param {Content[]} contents - The contents in feed order
+ * @returns {Content[]}
+ */
+function orderContentsInterleaved(contents: Content[]): Content[] {
+	const groups = new Map<ContentType, Content[]>();
+	for (const content of contents) {
+		if (!groups.has(content.type)) groups.set(content.type, []);
+		groups.get(content.type).push(content);
+	}
+	const ordered: Content[] = [];
+	for (let index = 0; ordered.length < contents.length; index++) {
+		for (const group of groups.values()) {
+			if (index < group.length) ordered.push(group[index]);
+		}
+	}
+	return ordered;
+}
+
+/**
+ * Order the contents by the year they refer to, from the oldest to the most recent one.
+ * Contents without a year (i.e. holidays) come first
+ * @param {Content[]} contents - The contents in feed order
+ * @returns {Content[]}
+ */
+function orderContentsChronologically(contents: Content[]): Content[] {
+	const years = new Map(contents.map(content => [content, getContentYears(content).year?.year ?? null]));
+	// the sort is stable, so contents of the same year keep their feed order
+	return [...contents].sort((a, b) => {
+		const yearA = years.get(a) ?? -Infinity;
+		const yearB = years.get(b) ?? -Infinity;
+		return yearA === yearB ? 0 : yearA - yearB;
+	});
+}
+
+/**
+ * Shuffle the contents, seeded with the article id, so the order stays the same throughout the day
+ * @param {Content[]} contents - The contents in feed order
+ * @param {Article} article - The article
+ * @returns {Content[]}
+ */
+function orderContentsRandomly(contents: Content[], article: Article): Content[] {
+	const random = createSeededRandom(ORDERING_SEED + article.id);
+	const ordered = [...contents];
+	for (let i = ordered.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		[ordered[i], ordered[j]] = [ordered[j], ordered[i]];
+	}
+	return ordered;
+}
+
+/**
+ * Shuffle the contents like orderContentsRandomly, but types with a higher weight
+ * (see ORDERING_WEIGHTS) tend to come first
+ * @param {Content[]} contents - The contents in feed order
+ * @param {Article} article - The article
+ * @returns {Content[]}
+ */
+function orderContentsWeighted(contents: Content[], article: Article): Content[] {
+	const weights = new Map<string, number>(ORDERING_WEIGHTS.split(',').map(weight => {
+		const [type, value] = weight.split(':').map(w => w.trim());
+		return [type, Number(value)];
+	}));
+	const random = createSeededRandom(ORDERING_SEED + article.id);
+	// weighted random sampling: every content gets the key random^(1/weight), the highest keys come first
+	const keys = new Map(contents.map(content => {
+		const weight = weights.get(content.type) > 0 ? weights.get(content.type) : 1;
+		return [content, Math.pow(random(), 1 / weight)];
+	}));
+	return [...contents].sort((a, b) => keys.get(b) - keys.get(a));
+}
+
+/**
+ * Get the contents of an article (without the today text) in the order
+ * of the strategy configured in ORDERING_STRATEGY. Contents that have been
+ * given a priority by the rules are moved up (or down) accordingly,
+ * milestone anniversaries come first among contents of the same priority
+ * @param {Article} article - The article
+ * @returns {Content[]}
+ */
+function orderContents(article: Article): Content[] {
+	const contents = article.contentList.filter(c => c.type !== ContentType.todayText);
+	let strategy = orderingStrategies.find(s => s.type === ORDERING_STRATEGY);
+	if (!strategy) {
+		log(LogLevel.WARNING, 'Invalid ordering strategy:', ORDERING_STRATEGY, '- using feed order instead...');
+		strategy = orderingStrategies.find(s => s.type === OrderingStrategy.feed);
+	}
+	// the sort is stable, so contents of the same priority keep the order of the strategy
+	const getPriority = (content: Content): number => (content.flags && content.flags.priority) || 0;
+	return strategy.orderContents(contents, article).sort((a, b) => getPriority(b) - getPriority(a) || Number(isMilestone(b)) - Number(isMilestone(a)));
+}
+
+/**
+ * Pick the next content of an article to be posted. If FEATURED_EVENT_HOUR is set,
+ * the featured event is held back until that hour and takes precedence afterwards,
+ * the same goes for milestone anniversaries and MILESTONE_HOUR
+ * @param {Article} article - The article
+ * @param {Function} [isPostable] - Additional check whether a content may be posted
+ * @param {Date} [date=new Date()] - The current date
+ * @returns {Content|null} the next content or null if there is nothing to be posted (right now)
+ */
+function getNextContent(article: Article, isPostable: (content: Content) => boolean = () => true, date: Date = new Date()): Content|null {
+	let candidates = orderContents(article).filter(c => !c.alreadyPosted && !c.retired && !isSkipped(c) && isPostable(c));
+	if (FEATURED_EVENT_HOUR !== null) {
+		const featuredEvent = candidates.find(c => c.type === ContentType.featuredEvent);
+		if (featuredEvent && getHourInTimezone(date) >= FEATURED_EVENT_HOUR) return featuredEvent;
+		if (featuredEvent) log(LogLevel.DEBUG, 'Holding back featured event until', FEATURED_EVENT_HOUR + ':00');
+		candidates = candidates.filter(c => c !== featuredEvent);
+	}
+	if (MILESTONE_HOUR !== null) {
+		const milestone = candidates.find(c => isMilestone(c));
+		if (milestone && getHourInTimezone(date) >= MILESTONE_HOUR) return milestone;
+		if (milestone) log(LogLevel.DEBUG, 'Holding back milestone anniversaries until', MILESTONE_HOUR + ':00');
+		candidates = candidates.filter(c => !isMilestone(c));
+	}
+	return candidates[0] || null;
+}
+
+export { orderContents, getNextContent };
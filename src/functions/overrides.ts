@@ -0,0 +1,78 @@
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import { Article, Content } from '../classes/classes';
+import { ContentType, LogLevel } from '../utils/enums';
+import { DateOverride } from '../utils/interfaces';
+import { assignContentIds, getContentId, log } from './utils';
+dotenv.config();
+
+// the overrides are optional - without an overrides file, the articles are posted as fetched
+const OVERRIDES_FILE = process.env.OVERRIDES_FILE || './overrides.json';
+
+/**
+ * Load the overrides of a date from the overrides file (OVERRIDES_FILE)
+ * @param {string} date - The date in the format MM-DD
+ * @returns {Promise<DateOverride|null>} the overrides of the date, or null if there are none
+ */
+async function loadOverrides(date: string): Promise<DateOverride|null> {
+	let fileContent: string;
+	try {
+		fileContent = await fs.readFile(OVERRIDES_FILE, 'utf-8');
+	} catch (error) {
+		if (error.code !== 'ENOENT') log(LogLevel.ERROR, 'Failed to read overrides file:', error);
+		return null;
+	}
+	try {
+		const json = JSON.parse(fileContent) as Record<string, DateOverride>;
+		return json[date] || null;
+	} catch (error) {
+		log(LogLevel.ERROR, 'Invalid overrides file', OVERRIDES_FILE, '- no overrides will be applied:', error.message || error);
+		return null;
+	}
+}
+
+/**
+ * Merge the editorial overrides of the article's date into the article: the today text and the text
+ * of contents can be replaced, contents can be suppressed and extra contents can be added.
+ * Replaced contents keep their id, so posts and outbox entries still refer to them
+ * @param {Article} article - The article, with content ids assigned
+ * @returns {Promise<Article>} the same article
+ */
+async function applyOverrides(article: Article): Promise<Article> {
+	// the article id is midnight UTC of the article's day
+	const date = article.id.substring(5, 10);
+	const override = await loadOverrides(date);
+	if (!override) return article;
+	log(LogLevel.INFO, 'Applying overrides of', date, 'to article:', article.id);
+
+	const findContent = (contentId: string): Content|undefined => {
+		const content = article.contentList.find(c => getContentId(article.id, c) === contentId);
+		if (!content) log(LogLevel.WARNING, `Overrides of ${date} refer to unknown content:`, contentId);
+		return content;
+	};
+
+	if (override.intro) {
+		const todayText = article.contentList.find(c => c.type === ContentType.todayText);
+		if (todayText) todayText.value = override.intro;
+	}
+	for (const [contentId, value] of Object.entries(override.replace || {})) {
+		const content = findContent(contentId);
+		if (content) content.value = value;
+	}
+	for (const contentId of override.suppress || []) {
+		const content = findContent(contentId);
+		if (content) content.flags = { ...content.flags, skipReason: `Suppressed by overrides of ${date}` };
+	}
+	for (const extra of override.add || []) {
+		if (!Object.values(ContentType).includes(extra.type) || extra.type === ContentType.todayText || !extra.value) {
+			log(LogLevel.ERROR, `Overrides of ${date} contain an invalid extra content - ignoring it:`, JSON.stringify(extra));
+			continue;
+		}
+		article.contentList.push(new Content(extra.type, extra.value, extra.img || null));
+	}
+	// the extra contents need their ids as well
+	assignContentIds(article);
+	return article;
+}
+
+export { applyOverrides };
@@ -0,0 +1,179 @@
+import dotenv from 'dotenv';
+import schedule from 'node-schedule';
+import { Article } from '../classes/classes';
+import { LogLevel } from '../utils/enums';
+import { PlanSlot, PostingPlan } from '../utils/interfaces';
+import { storage } from './storage';
+import { getArticleIdForDate, getContentId, getDateForArticleId, getDateInTimezone, loadPlanFromJSON, log, savePlanToJSON, TIMEZONE } from './utils';
+import { fetchOnThisDayArticle } from './wikipedia';
+import { orderContents } from './ordering';
+import { isSkipped } from './rules';
+dotenv.config();
+
+const EARLIEST_START_HOUR = process.env.EARLIEST_START_HOUR != undefined ? Number(process.env.EARLIEST_START_HOUR) : 6;
+const LATEST_START_HOUR = Number(process.env.LATEST_START_HOUR) || 22;
+// 0 means that all entries of the day are planned
+const PLANNER_MAX_ENTRIES = Number(process.env.PLANNER_MAX_ENTRIES) || 0;
+const PLANNER_JITTER_MINUTES = Number(process.env.PLANNER_JITTER_MINUTES) || 0;
+// a slot is tried again after this many minutes if nothing has been posted for it
+const PLANNER_RETRY_MINUTES = Number(process.env.PLANNER_RETRY_MINUTES) || 15;
+// the plan of the new day is built shortly after midnight
+const PLANNER_CRON_SCHEDULE = '5 0 * * *';
+
+// the one-off jobs of the current plan
+let plannedJobs: schedule.Job[] = [];
+
+/**
+ * Get the posting window of the day of a date, i.e. EARLIEST_START_HOUR to LATEST_START_HOUR in the configured timezone
+ * @param {Date} date - The date
+ * @returns {{ start: Date, end: Date }}
+ */
+function getPostingWindow(date: Date): { start: Date, end: Date } {
+	const articleId = getArticleIdForDate(date);
+	return { start: getDateInTimezone(articleId, EARLIEST_START_HOUR), end: getDateInTimezone(articleId, LATEST_START_HOUR) };
+}
+
+/**
+ * Build the posting plan for an article: the entries that still need to be posted
+ * are spread evenly across the rest of the posting window, optionally with some jitter
+ * @param {Article} article - The article of the day
+ * @param {Date} from - The date the plan starts at (usually now)
+ * @param {number} [maxEntries=PLANNER_MAX_ENTRIES] - The maximum number of entries to be planned (0 for all)
+ * @returns {PostingPlan}
+ */
+function buildPlan(article: Article, from: Date, maxEntries: number = PLANNER_MAX_ENTRIES): PostingPlan {
+	const window = getPostingWindow(from);
+	// if the window has started already, the first slot is a minute from now
+	const start = from > window.start ? new Date(from.getTime() + 60 * 1000) : window.start;
+	const end = window.end;
+
+	let contents = orderContents(article).filter(c => !c.alreadyPosted && !c.retired && !isSkipped(c));
+	if (maxEntries > 0) contents = contents.slice(0, maxEntries);
+	if (start >= end) {
+		log(LogLevel.WARNING, 'Posting window is already over - nothing will be planned for article:', article.id);
+		contents = [];
+	}
+
+	const interval = contents.length > 0 ? (end.getTime() - start.getTime()) / contents.length : 0;
+	const slots = contents.map((content, index) => {
+		const jitter = (Math.random() * 2 - 1) * PLANNER_JITTER_MINUTES * 60 * 1000;
+		const time = Math.min(Math.max(start.getTime() + index * interval + jitter, start.getTime()), end.getTime());
+		return { contentId: getContentId(article.id, content), scheduledAt: new Date(time).toISOString(), done: false };
+	});
+	// the jitter might have mixed up the order of the slots
+	slots.sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt));
+
+	return { articleId: article.id, createdAt: new Date().toISOString(), slots };
+}
+
+/**
+ * Schedule a one-off job for a slot of the plan, which runs the bot for the content of the slot.
+ * The slot is only done once a post has been made for it - otherwise (e.g. if another run was
+ * in progress or the outbox is still pending) it is tried again after PLANNER_RETRY_MINUTES, as long as the posting window is not over
+ * @param {PostingPlan} plan - The posting plan
+ * @param {PlanSlot} slot - The slot
+ * @param {Function} run - The function to be run with the content id of the slot, resolves with whether a post has been made
+ * @returns {void}
+ */
+function scheduleSlot(plan: PostingPlan, slot: PlanSlot, run: (contentId: string) => Promise<boolean>): void {
+	const job = schedule.scheduleJob(new Date(slot.scheduledAt), async () => {
+		log(LogLevel.DEBUG, 'Planned job has been triggered for slot:', slot.scheduledAt);
+		plannedJobs = plannedJobs.filter(j => j !== job);
+		if (await run(slot.contentId)) {
+			slot.done = true;
+		} else {
+			const retryAt = new Date(Date.now() + PLANNER_RETRY_MINUTES * 60 * 1000);
+			if (retryAt <= getPostingWindow(new Date(slot.scheduledAt)).end) {
+				log(LogLevel.INFO, 'Nothing has been posted for slot - trying again at:', retryAt.toLocaleTimeString('en-GB', { timeZone: TIMEZONE }));
+				slot.scheduledAt = retryAt.toISOString();
+				scheduleSlot(plan, slot, run);
+			} else {
+				log(LogLevel.WARNING, 'Nothing has been posted for slot and the posting window is over:', slot.scheduledAt);
+			}
+		}
+		await savePlanToJSON(plan);
+		log(LogLevel.DEBUG, 'Planned job completed...');
+	});
+	if (job) plannedJobs.push(job);
+}
+
+/**
+ * Schedule a one-off job for every upcoming slot of the plan, replacing the jobs of a previous plan
+ * @param {PostingPlan} plan - The posting plan
+ * @param {Function} run - The function to be run with the content id of every slot, resolves with whether a post has been made
+ * @returns {void}
+ */
+function schedulePlan(plan: PostingPlan, run: (contentId: string) => Promise<boolean>): void {
+	for (const job of plannedJobs) job.cancel();
+	plannedJobs = [];
+
+	for (const slot of plan.slots) {
+		if (slot.done || new Date(slot.scheduledAt) <= new Date()) continue;
+		scheduleSlot(plan, slot, run);
+	}
+	log(LogLevel.INFO, `Scheduled ${plannedJobs.length} post(s) for article ${plan.articleId}:`, plan.slots.filter(s => !s.done).map(s => new Date(s.scheduledAt).toLocaleTimeString('en-GB', { timeZone: TIMEZONE })).join(', '));
+}
+
+/**
+ * Get the article of today, fetching and saving it if it has not been stored yet
+ * @param {string} articleId - The id of today's article
+ * @returns {Promise<Article|null>}
+ */
+async function getArticleForPlanning(articleId: string): Promise<Article|null> {
+	const storedArticle = await storage.loadArticle(articleId);
+	if (storedArticle) return storedArticle;
+	log(LogLevel.INFO, 'Fetching article for planning:', articleId);
+	const article = await fetchOnThisDayArticle(getDateForArticleId(articleId));
+	if (!article) return null;
+	await storage.saveArticle(article);
+	return await storage.loadArticle(articleId);
+}
+
+/**
+ * Plan the current day: a stored plan of today is resumed, unless slots have been
+ * missed (e.g. while the bot was down) - then the rest of the day is planned again
+ * @param {Function} run - The function to be run with the content id of every slot, resolves with whether a post has been made
+ * @returns {Promise<void>}
+ */
+async function planDay(run: (contentId: string) => Promise<boolean>): Promise<void> {
+	try {
+		const articleId = getArticleIdForDate(new Date());
+		const article = await getArticleForPlanning(articleId);
+		if (!article) {
+			log(LogLevel.ERROR, 'Could not get article for planning:', articleId);
+			return;
+		}
+
+		let plan = await loadPlanFromJSON();
+		if (plan && plan.articleId === articleId) {
+			const remainingSlots = plan.slots.filter(s => !s.done);
+			if (remainingSlots.some(s => new Date(s.scheduledAt) <= new Date())) {
+				log(LogLevel.INFO, 'Slots have been missed - rebuilding the posting plan for article:', articleId);
+				const rebuiltPlan = buildPlan(article, new Date(), remainingSlots.length);
+				plan.slots = plan.slots.filter(s => s.done).concat(rebuiltPlan.slots);
+			} else {
+				log(LogLevel.INFO, 'Resuming posting plan for article:', articleId);
+			}
+		} else {
+			log(LogLevel.INFO, 'Building posting plan for article:', articleId);
+			plan = buildPlan(article, new Date());
+		}
+
+		await savePlanToJSON(plan);
+		schedulePlan(plan, run);
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to plan the day:', error);
+	}
+}
+
+/**
+ * Start the planner: plans the current day right away and every following day shortly after midnight
+ * @param {Function} run - The function to be run with the content id of every slot, resolves with whether a post has been made
+ * @returns {Promise<void>}
+ */
+async function startPlanner(run: (contentId: string) => Promise<boolean>): Promise<void> {
+	await planDay(run);
+	schedule.scheduleJob({ rule: PLANNER_CRON_SCHEDULE, tz: TIMEZONE }, () => planDay(run));
+}
+
+export { startPlanner, buildPlan };
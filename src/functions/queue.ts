@@ -0,0 +1,66 @@
+import { Article, Content } from '../classes/classes';
+import { LogLevel, OutboxStatus } from '../utils/enums';
+import { storage } from './storage';
+import { getContentId, log, saveOutboxEntryToJSON } from './utils';
+import { resumeOutboxEntry } from './bluesky';
+import { createDraft, getLatestOutboxEntries, needsDraft } from './moderation';
+
+/**
+ * Find a content by its id, looking through the most recent articles first
+ * @param {string} contentId - The id of the content
+ * @returns {Promise<{ article: Article, content: Content }|null>} the content and its article, or null if there is no such content
+ */
+async function findContent(contentId: string): Promise<{ article: Article, content: Content }|null> {
+	const articles = (await storage.loadArticles()).sort((a, b) => b.id.localeCompare(a.id));
+	for (const article of articles) {
+		const content = article.contentList.find(c => getContentId(article.id, c) === contentId);
+		if (content) return { article, content };
+	}
+	return null;
+}
+
+/**
+ * Mark a content as posted, so it will not be posted
+ * @param {string} contentId - The id of the content
+ * @returns {Promise<{ article: Article, content: Content }|null>} the content and its article, or null if there is no such content
+ */
+async function skipContent(contentId: string): Promise<{ article: Article, content: Content }|null> {
+	const found = await findContent(contentId);
+	if (!found) return null;
+	await storage.markContentAsPosted(found.article, found.content);
+	found.content.alreadyPosted = true;
+	log(LogLevel.INFO, 'Content has been skipped:', contentId);
+	return found;
+}
+
+/**
+ * Mark a content as not posted, so it will be posted (again). A requeued
+ * content will also be posted if it has vanished from the feed. An incomplete
+ * thread is resumed instead. Delivered, failed and rejected outbox entries of the
+ * content are superseded, as they would keep the content from being posted anew,
+ * and a content that needs approval gets a fresh draft
+ * @param {string} contentId - The id of the content
+ * @returns {Promise<{ article: Article, content: Content }|null>} the content and its article, or null if there is no such content
+ */
+async function requeueContent(contentId: string): Promise<{ article: Article, content: Content }|null> {
+	const found = await findContent(contentId);
+	if (!found) return null;
+	const latestEntry = (await getLatestOutboxEntries(found.article.id)).get(contentId);
+	if (latestEntry && latestEntry.status === OutboxStatus.failed && latestEntry.refs.length > 0) {
+		// the root post is live, so the content stays posted
+		await resumeOutboxEntry(latestEntry);
+		return found;
+	}
+	if (latestEntry && [OutboxStatus.sent, OutboxStatus.failed, OutboxStatus.rejected].includes(latestEntry.status)) {
+		latestEntry.status = OutboxStatus.superseded;
+		await saveOutboxEntryToJSON(latestEntry);
+	}
+	found.content.alreadyPosted = false;
+	found.content.retired = false;
+	await storage.updateArticle(found.article);
+	if (needsDraft(found.content, latestEntry)) await createDraft(found.article, found.content);
+	log(LogLevel.INFO, 'Content has been requeued:', contentId);
+	return found;
+}
+
+export { findContent, skipContent, requeueContent };
@@ -0,0 +1,192 @@
+import dotenv from 'dotenv';
+import { Article, Content } from '../classes/classes';
+import { ContentChangeType, ContentType, LogLevel } from '../utils/enums';
+import { ContentChange } from '../utils/interfaces';
+import { storage } from './storage';
+import { appendToChangelog, getContentId, getDateForArticleId, log, normalizeContentText } from './utils';
+import { fetchOnThisDayArticle } from './wikipedia';
+import { supersedeDraft } from './moderation';
+dotenv.config();
+
+const RECONCILE_FEED = process.env.RECONCILE_FEED !== 'false';
+// how many words two entries need to have in common to be considered the same, edited entry
+const RECONCILE_SIMILARITY_THRESHOLD = Number(process.env.RECONCILE_SIMILARITY_THRESHOLD) || 0.5;
+
+/**
+ * Calculate how similar the texts of two contents are, i.e. the share of words they have in common
+ * @param {Content} a - The first content
+ * @param {Content} b - The second content
+ * @returns {number} a value between 0 (nothing in common) and 1 (same words)
+ */
+function getSimilarity(a: Content, b: Content): number {
+	const wordsA = new Set(normalizeContentText(a.value).split(' ').filter(w => w));
+	const wordsB = new Set(normalizeContentText(b.value).split(' ').filter(w => w));
+	if (wordsA.size === 0 && wordsB.size === 0) return 1;
+	const common = [...wordsA].filter(w => wordsB.has(w)).length;
+	return common / (wordsA.size + wordsB.size - common);
+}
+
+/**
+ * Create a changelog entry
+ * @param {ContentChangeType} change - The kind of change
+ * @param {Article} article - The article the content belongs to
+ * @param {Content} content - The changed content
+ * @param {string|null} oldValue - The value before the change
+ * @param {string|null} newValue - The value after the change
+ * @returns {ContentChange}
+ */
+function toContentChange(change: ContentChangeType, article: Article, content: Content, oldValue: string|null, newValue: string|null): ContentChange {
+	return {
+		changedAt: new Date().toISOString(),
+		change: change,
+		articleId: article.id,
+		contentId: getContentId(article.id, content),
+		contentType: content.type,
+		oldValue: oldValue,
+		newValue: newValue
+	};
+}
+
+/**
+ * Apply the value, image and flags of a fetched content to a stored content
+ * @param {Content} storedContent - The stored content (will be modified)
+ * @param {Content} fetchedContent - The content as currently present in the feed
+ * @returns {boolean} whether anything has changed
+ */
+function applyFetchedContent(storedContent: Content, fetchedContent: Content): boolean {
+	if (storedContent.value === fetchedContent.value
+		&& JSON.stringify(storedContent.img || null) === JSON.stringify(fetchedContent.img || null)
+		&& JSON.stringify(storedContent.flags || null) === JSON.stringify(fetchedContent.flags || null)) return false;
+	storedContent.value = fetchedContent.value;
+	storedContent.img = fetchedContent.img;
+	storedContent.flags = fetchedContent.flags;
+	return true;
+}
+
+/**
+ * Compare the stored article with the article that has just been fetched and apply the differences
+ * to the stored article: new entries are added, unposted entries that vanished are retired and
+ * edited entries are updated. Posted entries are never touched
+ * @param {Article} storedArticle - The stored article (will be modified)
+ * @param {Article} fetchedArticle - The article as currently present in the feed
+ * @returns {ContentChange[]} the changes that have been applied
+ */
+function diffArticle(storedArticle: Article, fetchedArticle: Article): ContentChange[] {
+	const changes: ContentChange[] = [];
+	const matched = new Set<Content>();
+	const unmatchedFetched: Content[] = [];
+
+	// first pass: entries that did not change at all, either by id or - as edited entries keep
+	// the id of their original text - by their text
+	for (const fetchedContent of fetchedArticle.contentList) {
+		const fetchedId = getContentId(fetchedArticle.id, fetchedContent);
+		const fetchedText = normalizeContentText(fetchedContent.value);
+		const storedContent = storedArticle.contentList.find(c => !matched.has(c) && getContentId(storedArticle.id, c) === fetchedId)
+			|| storedArticle.contentList.find(c => !matched.has(c) && c.type === fetchedContent.type && normalizeContentText(c.value) === fetchedText);
+		if (!storedContent) {
+			unmatchedFetched.push(fetchedContent);
+			continue;
+		}
+		matched.add(storedContent);
+		// an entry might come back after it has been retired
+		if (storedContent.retired) {
+			storedContent.retired = false;
+			changes.push(toContentChange(ContentChangeType.added, storedArticle, storedContent, null, storedContent.value));
+		}
+		// the id stays the same if an entry has been changed by the overrides (or its flags by the rules),
+		// posted entries cannot be changed anymore - except for the today text, which is never posted on its own
+		if (storedContent.alreadyPosted && storedContent.type !== ContentType.todayText) continue;
+		const oldValue = storedContent.value;
+		if (applyFetchedContent(storedContent, fetchedContent)) {
+			changes.push(toContentChange(ContentChangeType.updated, storedArticle, storedContent, oldValue, storedContent.value));
+		}
+	}
+
+	// second pass: entries that have been edited, i.e. entries of the same type with mostly the same words
+	for (const fetchedContent of unmatchedFetched) {
+		let bestMatch: Content|null = null;
+		let bestSimilarity = RECONCILE_SIMILARITY_THRESHOLD;
+		for (const storedContent of storedArticle.contentList) {
+			if (matched.has(storedContent) || storedContent.type !== fetchedContent.type) continue;
+			const similarity = getSimilarity(storedContent, fetchedContent);
+			if (similarity >= bestSimilarity) {
+				bestMatch = storedContent;
+				bestSimilarity = similarity;
+			}
+		}
+
+		if (!bestMatch) {
+			// the entry is new - make sure its id is unique within the stored article
+			const baseId = getContentId(storedArticle.id, fetchedContent);
+			let id = baseId;
+			for (let n = 2; storedArticle.contentList.some(c => c.id === id); n++) id = `${baseId}-${n}`;
+			const newContent = new Content(fetchedContent.type, fetchedContent.value, fetchedContent.img, false, id, false, fetchedContent.flags);
+			storedArticle.contentList.push(newContent);
+			matched.add(newContent);
+			changes.push(toContentChange(ContentChangeType.added, storedArticle, newContent, null, newContent.value));
+			continue;
+		}
+
+		matched.add(bestMatch);
+		// posted entries cannot be changed anymore
+		if (bestMatch.alreadyPosted) continue;
+		if (bestMatch.retired) {
+			bestMatch.retired = false;
+			changes.push(toContentChange(ContentChangeType.added, storedArticle, bestMatch, null, bestMatch.value));
+		}
+		const oldValue = bestMatch.value;
+		// the content keeps its id, so posts and outbox entries still refer to it
+		if (applyFetchedContent(bestMatch, fetchedContent)) {
+			changes.push(toContentChange(ContentChangeType.updated, storedArticle, bestMatch, oldValue, bestMatch.value));
+		}
+	}
+
+	// everything that is left has vanished from the feed
+	for (const storedContent of storedArticle.contentList) {
+		if (matched.has(storedContent) || storedContent.alreadyPosted || storedContent.retired) continue;
+		storedContent.retired = true;
+		changes.push(toContentChange(ContentChangeType.retired, storedArticle, storedContent, storedContent.value, null));
+	}
+
+	return changes;
+}
+
+/**
+ * Re-fetch the article from the content source and reconcile the stored article with it
+ * (see diffArticle). The applied changes are saved and recorded in the changelog, and the drafts of
+ * changed or retired contents are superseded, so their outdated text is never posted
+ * @param {Article} storedArticle - The stored article
+ * @param {boolean} [force=false] - Reconcile the article even if RECONCILE_FEED is disabled
+ * @returns {Promise<Article>} the reconciled article, or the stored article if nothing changed or the feed could not be fetched
+ */
+async function reconcileArticle(storedArticle: Article, force: boolean = false): Promise<Article> {
+	if (!RECONCILE_FEED && !force) return storedArticle;
+	try {
+		log(LogLevel.DEBUG, 'Re-fetching article to detect changes:', storedArticle.id);
+		const fetchedArticle = await fetchOnThisDayArticle(getDateForArticleId(storedArticle.id));
+		if (!fetchedArticle || fetchedArticle.id !== storedArticle.id || fetchedArticle.contentList.length === 0) {
+			log(LogLevel.WARNING, 'Could not re-fetch article, keeping the stored one:', storedArticle.id);
+			return storedArticle;
+		}
+
+		const reconciledArticle = new Article(storedArticle.id, storedArticle.url, storedArticle.contentList.map(c => new Content(c.type, c.value, c.img, c.alreadyPosted, getContentId(storedArticle.id, c), c.retired, c.flags)));
+		const changes = diffArticle(reconciledArticle, fetchedArticle);
+		if (changes.length === 0) {
+			log(LogLevel.DEBUG, 'Article has not changed:', storedArticle.id);
+			return storedArticle;
+		}
+
+		for (const change of changes) log(LogLevel.INFO, `Content ${change.change}:`, change.contentId, `(${change.contentType})`);
+		await storage.updateArticle(reconciledArticle);
+		await appendToChangelog(changes);
+		for (const change of changes.filter(c => c.change !== ContentChangeType.added)) {
+			await supersedeDraft(reconciledArticle, reconciledArticle.contentList.find(c => getContentId(reconciledArticle.id, c) === change.contentId));
+		}
+		return reconciledArticle;
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to reconcile article, keeping the stored one:', error);
+		return storedArticle;
+	}
+}
+
+export { reconcileArticle, diffArticle };
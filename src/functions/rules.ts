@@ -0,0 +1,152 @@
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import { parse } from 'node-html-parser';
+import { Article, Content } from '../classes/classes';
+import { LogLevel, RuleAction } from '../utils/enums';
+import { ContentFlags, FilterRule } from '../utils/interfaces';
+import { log } from './utils';
+dotenv.config();
+
+// the rules are optional - without a rules file, all contents are posted as usual
+const RULES_FILE = process.env.RULES_FILE || './rules.json';
+// the self-labels Bluesky shows a content warning for
+const CONTENT_WARNING_LABELS = ['sexual', 'nudity', 'porn', 'graphic-media'];
+const DEFAULT_CONTENT_WARNING_LABEL = 'graphic-media';
+
+/**
+ * Check if a rule of the rules file is valid, logging the reason if it is not
+ * @param {FilterRule} rule - The rule
+ * @param {number} index - The position of the rule in the rules file
+ * @returns {boolean}
+ */
+function isValidRule(rule: FilterRule, index: number): boolean {
+	const name = rule.name || `#${index + 1}`;
+	if (!Object.values(RuleAction).includes(rule.action)) {
+		log(LogLevel.ERROR, `Rule ${name} has an invalid action:`, rule.action, '- ignoring it...');
+		return false;
+	}
+	if (rule.regex) {
+		try {
+			new RegExp(rule.regex, 'i');
+		} catch (error) {
+			log(LogLevel.ERROR, `Rule ${name} has an invalid regex:`, error.message, '- ignoring it...');
+			return false;
+		}
+	}
+	if (rule.action === RuleAction.contentWarning && rule.label && !CONTENT_WARNING_LABELS.includes(rule.label)) {
+		log(LogLevel.ERROR, `Rule ${name} has an invalid label:`, rule.label, '- expected one of', CONTENT_WARNING_LABELS.join(', '), '- ignoring it...');
+		return false;
+	}
+	if (rule.action === RuleAction.priority && typeof rule.priority !== 'number') {
+		log(LogLevel.ERROR, `Rule ${name} needs a numeric priority - ignoring it...`);
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Load the rules from the rules file (RULES_FILE). Invalid rules are ignored
+ * @returns {Promise<FilterRule[]>} the valid rules, or an empty array if there is no rules file
+ */
+async function loadRules(): Promise<FilterRule[]> {
+	let fileContent: string;
+	try {
+		fileContent = await fs.readFile(RULES_FILE, 'utf-8');
+	} catch (error) {
+		if (error.code !== 'ENOENT') log(LogLevel.ERROR, 'Failed to read rules file:', error);
+		return [];
+	}
+	try {
+		const json = JSON.parse(fileContent) as { rules: FilterRule[] };
+		if (!Array.isArray(json.rules)) throw new Error('Expected an object with a "rules" array');
+		return json.rules.filter((rule, index) => isValidRule(rule, index));
+	} catch (error) {
+		log(LogLevel.ERROR, 'Invalid rules file', RULES_FILE, '- no rules will be applied:', error.message || error);
+		return [];
+	}
+}
+
+/**
+ * Get the titles of the Wikipedia articles a content links to
+ * @param {Content} content - The content
+ * @returns {string[]} the titles in lower case
+ */
+function getLinkedTitles(content: Content): string[] {
+	const titles: string[] = [];
+	for (const a of parse(content.value).querySelectorAll('a')) {
+		const href = a.getAttribute('href') || '';
+		if (href.includes('/wiki/')) {
+			try {
+				titles.push(decodeURIComponent(href.split('/wiki/')[1].split('#')[0]).replace(/_/g, ' ').toLowerCase());
+			} catch (error) {
+				log(LogLevel.DEBUG, 'Cannot decode link:', href, error);
+			}
+		}
+		if (a.getAttribute('title')) titles.push(a.getAttribute('title').toLowerCase());
+	}
+	return titles;
+}
+
+/**
+ * Check if a rule matches a content, i.e. all conditions that are set are met
+ * @param {FilterRule} rule - The rule
+ * @param {Content} content - The content
+ * @returns {boolean}
+ */
+function matchesRule(rule: FilterRule, content: Content): boolean {
+	const text = parse(content.value).text.replace(/\s+/g, ' ').trim();
+	if (rule.type && !(Array.isArray(rule.type) ? rule.type : [rule.type]).includes(content.type)) return false;
+	if (rule.text && !text.toLowerCase().includes(rule.text.toLowerCase())) return false;
+	if (rule.title && !getLinkedTitles(content).includes(rule.title.toLowerCase())) return false;
+	if (rule.regex && !new RegExp(rule.regex, 'i').test(text)) return false;
+	return true;
+}
+
+/**
+ * Evaluate the rules against every content of an article and set the flags of the matching contents.
+ * Skipped contents stay part of the article, along with the reason they have been skipped
+ * @param {Article} article - The article
+ * @returns {Promise<Article>} the same article
+ */
+async function applyRules(article: Article): Promise<Article> {
+	const rules = await loadRules();
+	if (rules.length === 0) return article;
+
+	for (const content of article.contentList) {
+		// flags that have been set before (i.e. by the overrides) are kept
+		let flags: ContentFlags = content.flags ? { ...content.flags } : null;
+		for (const [index, rule] of rules.entries()) {
+			if (!matchesRule(rule, content)) continue;
+			flags = flags || {};
+			switch (rule.action) {
+				case RuleAction.skip:
+					// the first matching rule is the one that is recorded
+					flags.skipReason = flags.skipReason || `Matched rule ${rule.name || '#' + (index + 1)}`;
+					break;
+				case RuleAction.requireApproval:
+					flags.requiresApproval = true;
+					break;
+				case RuleAction.contentWarning:
+					flags.contentWarning = rule.label || DEFAULT_CONTENT_WARNING_LABEL;
+					break;
+				case RuleAction.priority:
+					flags.priority = rule.priority;
+					break;
+			}
+		}
+		content.flags = flags;
+		if (flags && flags.skipReason) log(LogLevel.INFO, 'Content will be skipped:', flags.skipReason, '-', content.value);
+	}
+	return article;
+}
+
+/**
+ * Check if a content has been skipped by a rule
+ * @param {Content} content - The content
+ * @returns {boolean}
+ */
+function isSkipped(content: Content): boolean {
+	return !!(content.flags && content.flags.skipReason);
+}
+
+export { applyRules, isSkipped };
@@ -0,0 +1,190 @@
+import dotenv from 'dotenv';
+import express, { NextFunction, Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { LogLevel } from '../utils/enums';
+import { requeueContent, skipContent } from './queue';
+import { approveDraft, editDraft, loadDrafts, rejectDraft } from './moderation';
+import { storage } from './storage';
+import { withRunLock } from './lock';
+import { log } from './utils';
+dotenv.config();
+
+// the admin API is only started if a port is configured
+const ADMIN_API_PORT = Number(process.env.ADMIN_API_PORT) || 0;
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN || '';
+
+// set once the bot has logged in and has been scheduled
+let ready = false;
+
+/**
+ * Mark the bot as ready (or not), which is reported by /readyz
+ * @param {boolean} value - Whether the bot is ready
+ * @returns {void}
+ */
+function setReady(value: boolean): void {
+	ready = value;
+}
+
+/**
+ * Express middleware that rejects requests without the bearer token configured in ADMIN_API_TOKEN
+ * @param {Request} req - The request
+ * @param {Response} res - The response
+ * @param {NextFunction} next - The next handler
+ * @returns {void}
+ */
+function requireToken(req: Request, res: Response, next: NextFunction): void {
+	const header = req.headers.authorization || '';
+	const token = Buffer.from(header.startsWith('Bearer ') ? header.substring('Bearer '.length) : '');
+	const expected = Buffer.from(ADMIN_API_TOKEN);
+	// compare in constant time, so the token cannot be guessed by timing the responses
+	if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+		res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Unauthorized' });
+		return;
+	}
+	next();
+}
+
+/**
+ * Wrap an async request handler, so errors are logged and answered with a 500
+ * @param {Function} handler - The request handler
+ * @returns {Function} the wrapped request handler
+ */
+function handle(handler: (req: Request, res: Response) => Promise<void>): (req: Request, res: Response) => Promise<void> {
+	return async (req: Request, res: Response) => {
+		try {
+			await handler(req, res);
+		} catch (error) {
+			log(LogLevel.ERROR, `Admin API request ${req.method} ${req.path} failed:`, error);
+			res.status(500).json({ error: 'Internal Server Error' });
+		}
+	};
+}
+
+/**
+ * Wrap an async request handler that modifies the stored articles or the outbox, so it runs while
+ * holding the run lock and cannot interfere with a run. If a run is in progress, the request is answered with a 409
+ * @param {Function} handler - The request handler
+ * @returns {Function} the wrapped request handler
+ */
+function handleLocked(handler: (req: Request, res: Response) => Promise<void>): (req: Request, res: Response) => Promise<void> {
+	return handle(async (req, res) => {
+		if (!(await withRunLock(() => handler(req, res)))) {
+			res.status(409).json({ error: 'A run is in progress - try again later' });
+		}
+	});
+}
+
+/**
+ * Create the express app of the admin API
+ * @param {Function} run - Runs the bot once, resolves with false if the bot is already running and rejects if the run failed
+ * @returns {express.Express}
+ */
+function createAdminApp(run: () => Promise<boolean>): express.Express {
+	const app = express();
+	app.use(express.json());
+
+	// the probes are not protected, so they can be used by the deployment
+	app.get('/healthz', (req, res) => {
+		res.json({ status: 'ok' });
+	});
+	app.get('/readyz', (req, res) => {
+		res.status(ready ? 200 : 503).json({ status: ready ? 'ready' : 'starting' });
+	});
+
+	app.use(requireToken);
+
+	app.get('/articles', handle(async (req, res) => {
+		const articles = await storage.loadArticles();
+		res.json({ articles: articles.sort((a, b) => b.id.localeCompare(a.id)) });
+	}));
+	app.get('/articles/:id', handle(async (req, res) => {
+		const article = await storage.loadArticle(req.params.id);
+		if (!article) {
+			res.status(404).json({ error: `Cannot find article with id ${req.params.id}` });
+			return;
+		}
+		res.json(article);
+	}));
+	app.get('/posts', handle(async (req, res) => {
+		res.json({ posts: await storage.loadPosts() });
+	}));
+	app.post('/run', handle(async (req, res) => {
+		log(LogLevel.INFO, 'Run has been triggered via the admin API...');
+		try {
+			const ran = await run();
+			res.status(ran ? 200 : 409).json({ ran });
+		} catch (error) {
+			// the run has already been logged by the bot
+			res.status(500).json({ ran: true, error: `Run failed: ${error.message || error}` });
+		}
+	}));
+	app.post('/contents/:id/skip', handleLocked(async (req, res) => {
+		const found = await skipContent(req.params.id);
+		if (!found) {
+			res.status(404).json({ error: `Cannot find content with id ${req.params.id}` });
+			return;
+		}
+		res.json({ articleId: found.article.id, content: found.content });
+	}));
+	app.post('/contents/:id/requeue', handleLocked(async (req, res) => {
+		const found = await requeueContent(req.params.id);
+		if (!found) {
+			res.status(404).json({ error: `Cannot find content with id ${req.params.id}` });
+			return;
+		}
+		res.json({ articleId: found.article.id, content: found.content });
+	}));
+	app.get('/drafts', handle(async (req, res) => {
+		res.json({ drafts: await loadDrafts() });
+	}));
+	app.post('/drafts/:id/approve', handleLocked(async (req, res) => {
+		const draft = await approveDraft(req.params.id);
+		if (!draft) {
+			res.status(404).json({ error: `Cannot find draft of content with id ${req.params.id}` });
+			return;
+		}
+		res.json(draft);
+	}));
+	app.post('/drafts/:id/edit', handleLocked(async (req, res) => {
+		const text = req.body && typeof req.body.text === 'string' ? req.body.text.trim() : '';
+		if (!text) {
+			res.status(400).json({ error: 'Missing text' });
+			return;
+		}
+		const draft = await editDraft(req.params.id, text);
+		if (!draft) {
+			res.status(404).json({ error: `Cannot find draft of content with id ${req.params.id}` });
+			return;
+		}
+		res.json(draft);
+	}));
+	app.post('/drafts/:id/reject', handleLocked(async (req, res) => {
+		const draft = await rejectDraft(req.params.id);
+		if (!draft) {
+			res.status(404).json({ error: `Cannot find draft of content with id ${req.params.id}` });
+			return;
+		}
+		res.json(draft);
+	}));
+
+	return app;
+}
+
+/**
+ * Start the admin API on ADMIN_API_PORT, if configured. The API is not started without an ADMIN_API_TOKEN
+ * @param {Function} run - Runs the bot once, resolves with false if the bot is already running and rejects if the run failed
+ * @returns {void}
+ */
+function startAdminServer(run: () => Promise<boolean>): void {
+	if (!ADMIN_API_PORT) return;
+	if (!ADMIN_API_TOKEN) {
+		log(LogLevel.ERROR, 'ADMIN_API_PORT is set, but ADMIN_API_TOKEN is not - the admin API will not be started!');
+		return;
+	}
+	const server = createAdminApp(run).listen(ADMIN_API_PORT, () => {
+		log(LogLevel.INFO, 'Admin API is listening on port', ADMIN_API_PORT);
+	});
+	server.on('error', error => log(LogLevel.ERROR, 'Admin API failed:', error));
+}
+
+export { startAdminServer, setReady, createAdminApp };
@@ -0,0 +1,334 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { Article, Content, PersistedPost } from '../classes/classes';
+import { ContentType, LogLevel, StorageBackendType } from '../utils/enums';
+import { ContentFlags, Picture, StorageBackend } from '../utils/interfaces';
+import {
+	assignContentIds,
+	getContentId,
+	getLegacyContentIds,
+	loadArticle,
+	loadArticles,
+	loadPosts,
+	log,
+	markArticleContentAsPosted,
+	saveArticleToJSON,
+	savePostToJSON,
+	updateArticleInJSON
+} from './utils';
+dotenv.config();
+
+const DB_PATH = process.env.DB_PATH || './database';
+const ARTICLES_FILENAME = process.env.ARTICLES_FILENAME || 'articles.json';
+const POSTS_FILENAME = process.env.POSTS_FILENAME || 'posts.json';
+const SQLITE_FILENAME = process.env.SQLITE_FILENAME || 'wikipedia-otd-bsky-bot.sqlite';
+const STORAGE_BACKEND = (process.env.STORAGE_BACKEND as StorageBackendType) || StorageBackendType.json;
+
+/**
+ * The schema of the SQLite database
+ */
+const SQLITE_SCHEMA = `
+	CREATE TABLE IF NOT EXISTS articles (
+		id TEXT PRIMARY KEY,
+		url TEXT NOT NULL
+	);
+	CREATE TABLE IF NOT EXISTS contents (
+		article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+		position INTEGER NOT NULL,
+		id TEXT NOT NULL,
+		type TEXT NOT NULL,
+		value TEXT NOT NULL,
+		img TEXT,
+		already_posted INTEGER NOT NULL DEFAULT 0,
+		retired INTEGER NOT NULL DEFAULT 0,
+		flags TEXT,
+		PRIMARY KEY (article_id, position)
+	);
+	CREATE INDEX IF NOT EXISTS contents_id ON contents(id);
+	CREATE TABLE IF NOT EXISTS posts (
+		rowid INTEGER PRIMARY KEY AUTOINCREMENT,
+		uri TEXT,
+		cid TEXT,
+		article_id TEXT,
+		content_id TEXT,
+		content_type TEXT,
+		text TEXT NOT NULL,
+		created_at TEXT NOT NULL,
+		posted_at TEXT,
+		record TEXT NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS posts_uri ON posts(uri);
+	CREATE INDEX IF NOT EXISTS posts_content_id ON posts(content_id);
+`;
+
+/**
+ * The storage backend that keeps articles and posts in JSON files
+ */
+const jsonStorage: StorageBackend = {
+	type: StorageBackendType.json,
+	loadArticles: loadArticles,
+	loadArticle: loadArticle,
+	saveArticle: saveArticleToJSON,
+	updateArticle: updateArticleInJSON,
+	markContentAsPosted: markArticleContentAsPosted,
+	loadPosts: loadPosts,
+	savePost: savePostToJSON
+};
+
+/**
+ * The storage backend that keeps articles and posts in a SQLite database
+ */
+const sqliteStorage: StorageBackend = {
+	type: StorageBackendType.sqlite,
+	loadArticles: loadArticlesFromSQLite,
+	loadArticle: loadArticleFromSQLite,
+	saveArticle: saveArticleToSQLite,
+	updateArticle: updateArticleInSQLite,
+	markContentAsPosted: markArticleContentAsPostedInSQLite,
+	loadPosts: loadPostsFromSQLite,
+	savePost: savePostToSQLite
+};
+
+let database: Database.Database|null = null;
+
+/**
+ * A row of the contents table
+ */
+type ContentRow = { id: string, type: string, value: string, img: string|null, already_posted: number, retired: number, flags: string|null };
+
+/**
+ * Opens the SQLite database (once) and creates the schema if necessary.
+ * If the database is empty, existing JSON files are imported
+ * @returns {Database.Database}
+ */
+function getDatabase(): Database.Database {
+	if (database) return database;
+	fs.mkdirSync(DB_PATH, { recursive: true });
+	log(LogLevel.DEBUG, 'Opening SQLite database:', DB_PATH + '/' + SQLITE_FILENAME);
+	database = new Database(DB_PATH + '/' + SQLITE_FILENAME);
+	database.pragma('journal_mode = WAL');
+	database.pragma('foreign_keys = ON');
+	database.exec(SQLITE_SCHEMA);
+	// databases created by older versions of the bot lack some columns
+	const contentColumns = (database.prepare('PRAGMA table_info(contents)').all() as Array<{ name: string }>).map(column => column.name);
+	if (!contentColumns.includes('retired')) database.exec('ALTER TABLE contents ADD COLUMN retired INTEGER NOT NULL DEFAULT 0');
+	if (!contentColumns.includes('flags')) database.exec('ALTER TABLE contents ADD COLUMN flags TEXT');
+	return database;
+}
+
+/**
+ * Converts the rows of an article and its contents into an Article object
+ * @param {object} articleRow - The row of the article
+ * @param {object[]} contentRows - The rows of the article's contents, ordered by position
+ * @returns {Article}
+ */
+function toArticle(articleRow: { id: string, url: string }, contentRows: ContentRow[]): Article {
+	const contentList = contentRows.map(row => new Content(row.type as ContentType, row.value, row.img ? JSON.parse(row.img) as Picture : null, row.already_posted === 1, row.id, row.retired === 1, row.flags ? JSON.parse(row.flags) as ContentFlags : null));
+	return new Article(articleRow.id, articleRow.url, contentList);
+}
+
+/**
+ * Load all articles from SQLite
+ * @returns {Promise<Article[]>}
+ */
+async function loadArticlesFromSQLite(): Promise<Article[]> {
+	try {
+		const db = getDatabase();
+		const articleRows = db.prepare('SELECT id, url FROM articles ORDER BY id').all() as Array<{ id: string, url: string }>;
+		const contentStatement = db.prepare('SELECT id, type, value, img, already_posted, retired, flags FROM contents WHERE article_id = ? ORDER BY position');
+		return articleRows.map(row => toArticle(row, contentStatement.all(row.id) as ContentRow[]));
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to load articles from SQLite:', error);
+		return [];
+	}
+}
+
+/**
+ * Load a single article from SQLite
+ * @param {string} id - The id of the article
+ * @returns {Promise<Article|null>}
+ */
+async function loadArticleFromSQLite(id: string): Promise<Article|null> {
+	try {
+		const db = getDatabase();
+		const articleRow = db.prepare('SELECT id, url FROM articles WHERE id = ?').get(id) as { id: string, url: string }|undefined;
+		if (!articleRow) return null;
+		const contentRows = db.prepare('SELECT id, type, value, img, already_posted, retired, flags FROM contents WHERE article_id = ? ORDER BY position').all(id);
+		return toArticle(articleRow, contentRows as ContentRow[]);
+	} catch (error) {
+		log(LogLevel.ERROR, `Failed to load article with id ${id} from SQLite:`, error);
+		return null;
+	}
+}
+
+/**
+ * Insert all contents of an article into SQLite
+ * @param {Database.Database} db - The database
+ * @param {Article} article - The article
+ * @returns {void}
+ */
+function insertContents(db: Database.Database, article: Article): void {
+	const insertContent = db.prepare('INSERT INTO contents (article_id, position, id, type, value, img, already_posted, retired, flags) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)');
+	assignContentIds(article);
+	for (const [position, content] of article.contentList.entries()) {
+		insertContent.run(article.id, position, content.id, content.type, content.value, content.img ? JSON.stringify(content.img) : null, content.alreadyPosted ? 1 : 0, content.retired ? 1 : 0, content.flags ? JSON.stringify(content.flags) : null);
+	}
+}
+
+/**
+ * Save an article including its contents to SQLite - existing articles will not be overwritten
+ * @param {Article} article - The article to be saved
+ * @returns {Promise<void>}
+ */
+async function saveArticleToSQLite(article: Article): Promise<void> {
+	try {
+		const db = getDatabase();
+		const insertArticle = db.prepare('INSERT OR IGNORE INTO articles (id, url) VALUES (?, ?)');
+		db.transaction(() => {
+			// same as for JSON, an existing article is left untouched
+			if (insertArticle.run(article.id, article.url).changes === 0) return;
+			insertContents(db, article);
+		})();
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to save article to SQLite:', error);
+	}
+}
+
+/**
+ * Overwrite an existing article in SQLite, including its contents
+ * @param {Article} article - The article to be updated
+ * @returns {Promise<void>}
+ */
+async function updateArticleInSQLite(article: Article): Promise<void> {
+	try {
+		const db = getDatabase();
+		db.transaction(() => {
+			if (db.prepare('UPDATE articles SET url = ? WHERE id = ?').run(article.url, article.id).changes === 0) throw new Error(`Cannot find article with ID ${article.id}`);
+			db.prepare('DELETE FROM contents WHERE article_id = ?').run(article.id);
+			insertContents(db, article);
+		})();
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to update article in SQLite:', error);
+		throw new Error(`Failed to update article in SQLite: ${error}`);
+	}
+}
+
+/**
+ * Mark the content of an article as posted in SQLite
+ * @param {Article} article - The article the content belongs to
+ * @param {Content} content - The content to be marked as posted
+ * @returns {Promise<void>}
+ */
+async function markArticleContentAsPostedInSQLite(article: Article, content: Content): Promise<void> {
+	try {
+		const db = getDatabase();
+		const result = db.prepare('UPDATE contents SET already_posted = 1 WHERE article_id = ? AND id = ?').run(article.id, getContentId(article.id, content));
+		if (result.changes === 0) throw new Error(`Cannot find content in article with ID ${article.id}`);
+	} catch (error) {
+		log(LogLevel.ERROR, `Failed to mark content inside article as "posted":`, error);
+		throw new Error(`Failed to mark content inside article as "posted": ${error}`);
+	}
+}
+
+/**
+ * Load all posts from SQLite
+ * @returns {Promise<PersistedPost[]>}
+ */
+async function loadPostsFromSQLite(): Promise<PersistedPost[]> {
+	try {
+		const rows = getDatabase().prepare('SELECT record FROM posts ORDER BY rowid').all() as Array<{ record: string }>;
+		return rows.map(row => JSON.parse(row.record) as PersistedPost);
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to load posts from SQLite:', error);
+		return [];
+	}
+}
+
+/**
+ * Save a posted post to SQLite
+ * @param {PersistedPost} post - The post to be saved
+ * @returns {Promise<void>}
+ */
+async function savePostToSQLite(post: PersistedPost): Promise<void> {
+	try {
+		getDatabase()
+			.prepare('INSERT INTO posts (uri, cid, article_id, content_id, content_type, text, created_at, posted_at, record) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)')
+			.run(post.uri || null, post.cid || null, post.articleId || null, post.contentId || null, post.contentType || null, post.text, post.createdAt, post.postedAt || null, JSON.stringify(post));
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to save post to SQLite:', error);
+	}
+}
+
+/**
+ * Imports the existing articles and posts from the JSON files in DB_PATH
+ * into the SQLite database. This only happens once, i.e. if the database
+ * does not hold any articles and posts yet
+ * @returns {Promise<void>}
+ */
+async function importJSONIntoSQLite(): Promise<void> {
+	const db = getDatabase();
+	const { count } = db.prepare('SELECT (SELECT COUNT(*) FROM articles) + (SELECT COUNT(*) FROM posts) AS count').get() as { count: number };
+	if (count > 0) {
+		log(LogLevel.DEBUG, 'SQLite database is not empty, skipping JSON import...');
+		return;
+	}
+
+	if (fs.existsSync(DB_PATH + '/' + ARTICLES_FILENAME)) {
+		const articles = await loadArticles();
+		log(LogLevel.INFO, `Importing ${articles.length} article(s) from ${ARTICLES_FILENAME} into SQLite...`);
+		for (const article of articles) await saveArticleToSQLite(article);
+	}
+	if (fs.existsSync(DB_PATH + '/' + POSTS_FILENAME)) {
+		const posts = await loadPosts();
+		log(LogLevel.INFO, `Importing ${posts.length} post(s) from ${POSTS_FILENAME} into SQLite...`);
+		for (const post of posts) await savePostToSQLite(post);
+	}
+}
+
+/**
+ * Let the posts in the SQLite database that still refer to their content by its legacy id
+ * (derived from the raw value of the content) refer to the stable id of the content
+ * @returns {Promise<void>}
+ */
+async function migrateContentIdsInSQLite(): Promise<void> {
+	const db = getDatabase();
+	const contentIds = getLegacyContentIds(await loadArticlesFromSQLite());
+	if (contentIds.size === 0) return;
+	const rows = db.prepare('SELECT rowid, content_id, record FROM posts').all() as Array<{ rowid: number, content_id: string|null, record: string }>;
+	const migratedRows = rows.filter(row => contentIds.has(row.content_id));
+	if (migratedRows.length === 0) return;
+	log(LogLevel.INFO, `Assigning content ids to ${migratedRows.length} post(s) in SQLite...`);
+	const updatePost = db.prepare('UPDATE posts SET content_id = ?, record = ? WHERE rowid = ?');
+	db.transaction(() => {
+		for (const row of migratedRows) {
+			const post = JSON.parse(row.record) as PersistedPost;
+			post.contentId = contentIds.get(row.content_id);
+			updatePost.run(post.contentId, JSON.stringify(post), row.rowid);
+		}
+	})();
+}
+
+/**
+ * Get the storage backend configured in STORAGE_BACKEND
+ * @returns {StorageBackend}
+ */
+function getStorageBackend(): StorageBackend {
+	switch (STORAGE_BACKEND) {
+		case StorageBackendType.sqlite:
+			return sqliteStorage;
+		case StorageBackendType.json:
+			return jsonStorage;
+		default:
+			log(LogLevel.WARNING, 'Invalid storage backend:', STORAGE_BACKEND, '- using JSON instead...');
+			return jsonStorage;
+	}
+}
+
+/**
+ * The storage backend selected for this instance of the bot
+ * @type {StorageBackend}
+ */
+const storage: StorageBackend = getStorageBackend();
+
+export { storage, jsonStorage, sqliteStorage, importJSONIntoSQLite, migrateContentIdsInSQLite };
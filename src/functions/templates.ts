@@ -0,0 +1,169 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { Article, Content } from '../classes/classes';
+import { ContentType, LogLevel } from '../utils/enums';
+import { PostTemplates } from '../utils/interfaces';
+import { LOCALE } from '../utils/locales';
+import { log } from './utils';
+import { getMainLinkedArticle } from './wikipedia';
+import { formatYear, getAgeAtDeath, getContentYears, getYearsAgo } from './years';
+import { getMilestoneTag } from './milestones';
+dotenv.config();
+
+// without a templates file, the built-in templates below are used
+const TEMPLATES_FILE = process.env.TEMPLATES_FILE || './templates.json';
+// placeholders look like this: {{body}}
+const PLACEHOLDER_REGEX = /\{\{(\w+)\}\}/g;
+// the placeholders every template may use
+const PLACEHOLDERS = ['date', 'year', 'yearsAgo', 'age', 'body', 'title', 'emoji', 'milestone', 'onThisDay', 'anniversary', 'picOfTheDay', 'eventIn', 'holidayObserved'];
+// every template needs to contain the body of the content
+const REQUIRED_PLACEHOLDERS = ['body'];
+
+/**
+ * The built-in templates, which are the same for every language - the hashtags and phrases come from the locale
+ */
+const DEFAULT_TEMPLATES: PostTemplates = {
+	holiday: ['{{onThisDay}}, {{date}}, {{holidayObserved}}:\n\n{{body}}'],
+	featuredEvent: ['{{milestone}}{{picOfTheDay}} - {{onThisDay}}, {{date}} {{eventIn}} {{body}}'],
+	event: ['{{milestone}}{{onThisDay}}, {{date}} {{eventIn}} {{body}}'],
+	anniversary: ['{{milestone}}{{anniversary}} - {{onThisDay}}, {{date}}:\n\n{{emoji}}{{body}}{{age}}']
+};
+
+// the templates are loaded once, see getTemplates
+let templates: PostTemplates|null = null;
+
+/**
+ * Get the values of the placeholders for a content
+ * @param {Article} article - The article
+ * @param {Content} content - The content
+ * @returns {Record<string, string>} the values by placeholder name
+ */
+function getPlaceholderValues(article: Article, content: Content): Record<string, string> {
+	const todayContent = article.contentList.find(c => c.type === ContentType.todayText);
+	const { year } = getContentYears(content);
+	const yearsAgo = getYearsAgo(content, new Date(article.id).getUTCFullYear());
+	const age = getAgeAtDeath(content);
+	const mainLink = getMainLinkedArticle(content);
+
+	let body = content.value;
+	let emoji = '';
+	switch (content.type) {
+		case ContentType.anniversary:
+			// we want to prefix the line with an emoji, depending on whether the person died or was born
+			if (content.value.includes(`<abbr title="${LOCALE.bornTitle}">`)) {
+				emoji = '🚼 ';
+			} else if (content.value.includes(`<abbr title="${LOCALE.diedTitle}">`)) {
+				emoji = '✝ ';
+			}
+			break;
+		case ContentType.event:
+		case ContentType.featuredEvent: {
+			// the year is followed by how many years ago that was, like the years of anniversaries
+			const yearsAgoPhrase = yearsAgo ? ` (${LOCALE.phrases.yearsAgo.replace('<<YEARS>>', yearsAgo.toString())})` : '';
+			body = body.replace('</a> – ', `</a>${yearsAgoPhrase}:<br><br>`);
+			break;
+		}
+	}
+
+	return {
+		date: todayContent ? todayContent.value : '',
+		year: year ? formatYear(year) : '',
+		yearsAgo: yearsAgo !== null ? yearsAgo.toString() : '',
+		// the age directly follows the body, e.g. "(1821–1881), aged 60"
+		age: age !== null ? `, ${LOCALE.phrases.ageAtDeath.replace('<<YEARS>>', age.toString())}` : '',
+		body: body,
+		title: mainLink ? mainLink.text : '',
+		emoji: emoji,
+		milestone: getMilestoneTag(content),
+		onThisDay: LOCALE.hashtags.onThisDay,
+		anniversary: LOCALE.hashtags.anniversary,
+		picOfTheDay: LOCALE.hashtags.picOfTheDay,
+		eventIn: LOCALE.phrases.eventIn,
+		holidayObserved: LOCALE.phrases.holidayObserved
+	};
+}
+
+/**
+ * Validate the templates: every content type needs at least one template, every template
+ * needs to contain the required placeholders and must not contain unknown ones
+ * @param {PostTemplates} postTemplates - The templates
+ * @returns {string[]} the errors, empty if the templates are valid
+ */
+function validateTemplates(postTemplates: PostTemplates): string[] {
+	const errors: string[] = [];
+	for (const type of Object.keys(postTemplates)) {
+		if (!Object.keys(DEFAULT_TEMPLATES).includes(type)) errors.push(`Unknown content type: ${type}`);
+	}
+	for (const type of Object.keys(DEFAULT_TEMPLATES)) {
+		const variants = postTemplates[type];
+		if (!Array.isArray(variants) || variants.length === 0 || variants.some(v => typeof v !== 'string')) {
+			errors.push(`${type} needs at least one template`);
+			continue;
+		}
+		for (const [index, variant] of variants.entries()) {
+			const placeholders = [...variant.matchAll(PLACEHOLDER_REGEX)].map(match => match[1]);
+			for (const placeholder of REQUIRED_PLACEHOLDERS) {
+				if (!placeholders.includes(placeholder)) errors.push(`Template ${index + 1} of ${type} lacks the placeholder {{${placeholder}}}`);
+			}
+			for (const placeholder of placeholders) {
+				if (!PLACEHOLDERS.includes(placeholder)) errors.push(`Template ${index + 1} of ${type} contains the unknown placeholder {{${placeholder}}}`);
+			}
+		}
+	}
+	return errors;
+}
+
+/**
+ * Get the templates from the templates file (TEMPLATES_FILE), or the built-in ones if there is no templates file.
+ * Types that are missing in the templates file use the built-in templates, a single template may be given as a string
+ * @returns {PostTemplates}
+ * @throws {Error} if the templates file cannot be read or is invalid
+ */
+function getTemplates(): PostTemplates {
+	if (templates) return templates;
+	if (!fs.existsSync(TEMPLATES_FILE)) {
+		log(LogLevel.DEBUG, 'No templates file found, using the built-in templates...');
+		templates = DEFAULT_TEMPLATES;
+		return templates;
+	}
+
+	let json: Record<string, string|string[]>;
+	try {
+		json = JSON.parse(fs.readFileSync(TEMPLATES_FILE, 'utf-8'));
+	} catch (error) {
+		throw new Error(`Cannot read templates file ${TEMPLATES_FILE}: ${error.message || error}`);
+	}
+	const postTemplates: PostTemplates = { ...DEFAULT_TEMPLATES };
+	for (const [type, variants] of Object.entries(json)) {
+		postTemplates[type] = typeof variants === 'string' ? [variants] : variants;
+	}
+	const errors = validateTemplates(postTemplates);
+	if (errors.length > 0) throw new Error(`Invalid templates file ${TEMPLATES_FILE}: ${errors.join(', ')}`);
+
+	log(LogLevel.INFO, 'Loaded templates from', TEMPLATES_FILE);
+	templates = postTemplates;
+	return templates;
+}
+
+/**
+ * Prefix the text of a content with the "todayText" (and hashtags, phrases etc.), using the
+ * template of its content type. If there are several templates, they are rotated from day to day
+ * @param {Article} article - The article
+ * @param {Content} content - The content
+ * @returns {Promise<string>}
+ */
+async function prefixText(article: Article, content: Content): Promise<string> {
+	log(LogLevel.DEBUG, 'prefixText called...');
+	const variants = getTemplates()[content.type] || ['{{onThisDay}}, {{date}} {{body}}'];
+	// every day gets the next variant
+	const day = Math.floor(new Date(article.id).getTime() / (24 * 60 * 60 * 1000));
+	const template: string = variants[day % variants.length];
+
+	const values = getPlaceholderValues(article, content);
+	// the template is HTML as well, so its line breaks need to survive the rendering
+	const prefixedText = template.replace(/\n/g, '<br>').replace(PLACEHOLDER_REGEX, (match, name) => values[name] ?? match);
+	log(LogLevel.DEBUG, 'prefixedText:', prefixedText);
+	return prefixedText;
+}
+
+export { prefixText, getTemplates };
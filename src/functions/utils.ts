@@ -1,20 +1,29 @@
 import dotenv from 'dotenv';
 import fs from 'fs/promises';
 import fsSync from 'fs';
-import parse from 'node-html-parser';
-import { Article, BlueskyPost, Content } from '../classes/classes';
+import { createHash, randomBytes } from 'crypto';
+import parse, { HTMLElement, Node, NodeType } from 'node-html-parser';
+import { AtpSessionData } from '@atproto/api';
+import { Article, PersistedPost, Content, OutboxEntry } from '../classes/classes';
 import { ContentType, LogLevel } from '../utils/enums';
-import { Link, Articles, Posts } from '../utils/interfaces';
+import { Link, Articles, Posts, Outbox, ContentChange, PostingPlan } from '../utils/interfaces';
+import { LOCALE } from '../utils/locales';
+import { getYearsBetween, parseYear } from './years';
 dotenv.config();
 
 const DB_PATH = process.env.DB_PATH || './database';
 const ARTICLES_FILENAME = process.env.ARTICLES_FILENAME || 'articles.json';
 const POSTS_FILENAME = process.env.POSTS_FILENAME || 'posts.json';
+const OUTBOX_FILENAME = process.env.OUTBOX_FILENAME || 'outbox.json';
+const SESSION_FILENAME = process.env.SESSION_FILENAME || 'session.json';
+const CHANGELOG_FILENAME = process.env.CHANGELOG_FILENAME || 'changelog.jsonl';
+const PLAN_FILENAME = process.env.PLAN_FILENAME || 'plan.json';
 const LOG_LEVEL = process.env.LOG_LEVEL || LogLevel.INFO;
 const LOG_DIR = process.env.LOG_DIR || './logs';
 const LOG_NAME = process.env.LOG_NAME || 'wikipedia-otd-bsky-bot';
 const LOG_TO_FILE = process.env.LOG_TO_FILE || false;
 const WIKI_URL = process.env.WIKIPEDIA_MAIN_URL || 'https://en.wikipedia.org';
+const TIMEZONE = getTimezone();
 
 log("INIT", 'Initializing', JSON.parse(fsSync.readFileSync('package.json', 'utf-8')).name + ' v' + JSON.parse(fsSync.readFileSync('package.json', 'utf-8')).version);
 log('LOGGER', 'LogLevel is turned to', LOG_LEVEL);
@@ -24,10 +33,11 @@ dotenv.config();
 /**
  * @typedef {import('../classes/classes').Article} Article
  * @typedef {import('../classes/classes').Content} Content
- * @typedef {import('../classes/classes').BlueskyPost} BlueskyPost
+ * @typedef {import('../classes/classes').PersistedPost} PersistedPost
  * @typedef {import('../utils/interfaces').Link} Link
  * @typedef {import('../utils/interfaces').Articles} Articles
  * @typedef {import('../utils/interfaces').Posts} Posts
+ * @typedef {import('../utils/interfaces').Outbox} Outbox
  * @typedef {import('../utils/enums').LogLevel} LogLevel
  * @typedef {import('../utils/enums').ContentType} ContentType
  */
@@ -54,6 +64,13 @@ async function initializeJSON(filename: string): Promise<void> {
 					JSON.stringify(JSON.parse('{"posts": []}'), null, 2)
 				);
 				break;
+			case OUTBOX_FILENAME:
+				log(LogLevel.DEBUG, `Initializing ${filename}...`);
+				await fs.writeFile(
+					DB_PATH + '/' + filename,
+					JSON.stringify(JSON.parse('{"outbox": []}'), null, 2)
+				);
+				break;
 			default:
 				log(LogLevel.ERROR, 'Invalid filename:', filename);
 				throw new Error(`Invalid filename: ${filename}`);
@@ -72,9 +89,9 @@ async function initializeJSON(filename: string): Promise<void> {
 
 /**
  * Load the JSON file
- * @returns {Promise<Articles|Posts|void>}
+ * @returns {Promise<Articles|Posts|Outbox|void>}
  */
-async function loadFromJSON(filename: string): Promise<Articles|Posts|void> {
+async function loadFromJSON(filename: string): Promise<Articles|Posts|Outbox|void> {
 	try {
 		const fileContent: string = await fs.readFile(DB_PATH + '/' + filename, 'utf-8');
 
@@ -88,6 +105,8 @@ async function loadFromJSON(filename: string): Promise<Articles|Posts|void> {
 				return JSON.parse(fileContent) as Articles;
 			case POSTS_FILENAME:				
 				return JSON.parse(fileContent) as Posts;
+			case OUTBOX_FILENAME:
+				return JSON.parse(fileContent) as Outbox;
 			default:
 				throw new Error(`Invalid filename: ${filename}`);
 		}
@@ -103,6 +122,16 @@ async function loadFromJSON(filename: string): Promise<Articles|Posts|void> {
 
 }
 
+/**
+ * Get the name of a temporary file to write a file in DB_PATH to. The name is unique,
+ * so concurrent writes (of the same or another process) never share a temporary file
+ * @param {string} filename - The name of the file
+ * @returns {string} the path of the temporary file
+ */
+function getTmpFilename(filename: string): string {
+	return `${DB_PATH}/${filename}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+}
+
 /**
  * Saves articles to JSON
  * @param {Articles} obj - The articles to be saved to JSON
@@ -113,12 +142,17 @@ async function saveToJSON(obj: Articles): Promise<void>;
  * @param {Posts} obj - The posts to be saved to JSON
  */
 async function saveToJSON(obj: Posts): Promise<void>;
+/**
+ * Saves the outbox to JSON
+ * @param {Outbox} obj - The outbox to be saved to JSON
+ */
+async function saveToJSON(obj: Outbox): Promise<void>;
 /**
  * Save the object to the database
- * @param {Articles|Posts} obj - The object to be saved
+ * @param {Articles|Posts|Outbox} obj - The object to be saved
  * @returns {Promise<void>}
  */
-async function saveToJSON(obj: Articles|Posts): Promise<void> {
+async function saveToJSON(obj: Articles|Posts|Outbox): Promise<void> {
 	try {
 		let filename: string = undefined;
 		if (isArticles(obj)) {
@@ -127,6 +161,9 @@ async function saveToJSON(obj: Articles|Posts): Promise<void> {
 		} else if (isPosts(obj)) {
 			log(LogLevel.DEBUG, 'Determined file type:', 'Posts');
 			filename = POSTS_FILENAME;
+		} else if (isOutbox(obj)) {
+			log(LogLevel.DEBUG, 'Determined file type:', 'Outbox');
+			filename = OUTBOX_FILENAME;
 		} else {
 			log(LogLevel.ERROR, 'Failed to determine file type!');
 			throw new Error('Invalid object type');
@@ -137,20 +174,28 @@ async function saveToJSON(obj: Articles|Posts): Promise<void> {
 			throw new Error(`Invalid file name: ${filename}`);
 		}		
 		log(LogLevel.DEBUG, 'Trying to write file:', DB_PATH + '/' + filename);
-		await fs.writeFile(DB_PATH + '/' + filename, JSON.stringify(obj, null, 2), 'utf-8');
+		// write to a temporary file first and rename it afterwards,
+		// so a crash while writing cannot leave a corrupted file behind
+		const tmpFile = getTmpFilename(filename);
+		await fs.writeFile(tmpFile, JSON.stringify(obj, null, 2), 'utf-8');
+		await fs.rename(tmpFile, DB_PATH + '/' + filename);
 	} catch (error) {
 		log(LogLevel.CRITICAL, `Failed to save ${typeof obj} ${JSON.stringify(obj,null,2)} to local filesystem:`, error);
 	}
 }
 
-function isArticles(obj: Articles|Posts): obj is Articles {
+function isArticles(obj: Articles|Posts|Outbox): obj is Articles {
 	return (obj as Articles).articles !== undefined;
 }
 
-function isPosts(obj: Articles|Posts): obj is Posts {
+function isPosts(obj: Articles|Posts|Outbox): obj is Posts {
 	return (obj as Posts).posts !== undefined;
 }
 
+function isOutbox(obj: Articles|Posts|Outbox): obj is Outbox {
+	return (obj as Outbox).outbox !== undefined;
+}
+
 async function markArticleContentAsPosted(article: Article, content: Content): Promise<void> {
 	try {
 		// load articles
@@ -160,14 +205,12 @@ async function markArticleContentAsPosted(article: Article, content: Content): P
 		const articleToUpdate: Article = loadedArticles.find((art: { id: string }) => art.id === article.id);
 
 		// find the content we need to update
-		const contentToUpdate: Content = articleToUpdate.contentList.find((con: Content) => con.value === content.value);
+		const contentId = getContentId(article.id, content);
+		const contentToUpdate: Content = articleToUpdate.contentList.find((con: Content) => getContentId(articleToUpdate.id, con) === contentId);
 
 		// update the content to posted: true
 		contentToUpdate.alreadyPosted = true;
 
-		// update the article's content list
-		articleToUpdate.contentList = articleToUpdate.contentList.map(c => c.value !== contentToUpdate.value ? c : contentToUpdate);
-
 		// update the article array
 		loadedArticles = loadedArticles.map(a => a.id !== articleToUpdate.id ? a : articleToUpdate );
 
@@ -184,6 +227,79 @@ async function markArticleContentAsPosted(article: Article, content: Content): P
 	return;
 }
 
+/**
+ * Load the persisted Bluesky session from the database
+ * @returns {Promise<AtpSessionData|null>} the persisted session or null if there is none
+ */
+async function loadSessionFromJSON(): Promise<AtpSessionData|null> {
+	try {
+		const fileContent: string = await fs.readFile(DB_PATH + '/' + SESSION_FILENAME, 'utf-8');
+		if (fileContent === '') return null;
+		return JSON.parse(fileContent) as AtpSessionData;
+	} catch (error) {
+		if (error.code !== 'ENOENT') log(LogLevel.WARNING, 'Failed to load persisted session:', error);
+		return null;
+	}
+}
+
+/**
+ * Persist the Bluesky session to the database, so it can be resumed later
+ * @param {AtpSessionData} session - The session to be persisted
+ * @returns {Promise<void>}
+ */
+async function saveSessionToJSON(session: AtpSessionData): Promise<void> {
+	try {
+		await fs.mkdir(DB_PATH, { recursive: true });
+		// the session contains our tokens, so only the owner may read it
+		await fs.writeFile(DB_PATH + '/' + SESSION_FILENAME, JSON.stringify(session, null, 2), { encoding: 'utf-8', mode: 0o600 });
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to persist session:', error);
+	}
+}
+
+/**
+ * Delete the persisted Bluesky session from the database
+ * @returns {Promise<void>}
+ */
+async function deleteSessionFromJSON(): Promise<void> {
+	try {
+		await fs.rm(DB_PATH + '/' + SESSION_FILENAME, { force: true });
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to delete persisted session:', error);
+	}
+}
+
+/**
+ * Load the posting plan from the database
+ * @returns {Promise<PostingPlan|null>} the posting plan or null if there is none
+ */
+async function loadPlanFromJSON(): Promise<PostingPlan|null> {
+	try {
+		const fileContent: string = await fs.readFile(DB_PATH + '/' + PLAN_FILENAME, 'utf-8');
+		if (fileContent === '') return null;
+		return JSON.parse(fileContent) as PostingPlan;
+	} catch (error) {
+		if (error.code !== 'ENOENT') log(LogLevel.WARNING, 'Failed to load posting plan:', error);
+		return null;
+	}
+}
+
+/**
+ * Save the posting plan to the database, so it survives a restart
+ * @param {PostingPlan} plan - The posting plan to be saved
+ * @returns {Promise<void>}
+ */
+async function savePlanToJSON(plan: PostingPlan): Promise<void> {
+	try {
+		await fs.mkdir(DB_PATH, { recursive: true });
+		const tmpFile = getTmpFilename(PLAN_FILENAME);
+		await fs.writeFile(tmpFile, JSON.stringify(plan, null, 2), 'utf-8');
+		await fs.rename(tmpFile, DB_PATH + '/' + PLAN_FILENAME);
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to save posting plan:', error);
+	}
+}
+
 /**
  * A helper function to get a blob from an image URI
  * @param {string} imgUri - The URI of the image you want to receive a blob for
@@ -205,6 +321,7 @@ async function saveArticleToJSON(article: Article): Promise<void> {
 	try {
 		// we will save the entire article to a JSON file
 		const newArticle: Article = new Article(article.id, article.url, article.contentList);
+		assignContentIds(newArticle);
 		log(LogLevel.DEBUG, 'Saving article to JSON:', newArticle);
 
 		// load the JSON file
@@ -228,6 +345,26 @@ async function saveArticleToJSON(article: Article): Promise<void> {
 	}
 }
 
+/**
+ * Overwrite an existing article in the JSON file, including its contents
+ * @param {Article} article - The article to be updated
+ * @returns {Promise<void>}
+ */
+async function updateArticleInJSON(article: Article): Promise<void> {
+	try {
+		const updatedArticle: Article = new Article(article.id, article.url, article.contentList);
+		assignContentIds(updatedArticle);
+		const articleJSON: Articles = await loadFromJSON(ARTICLES_FILENAME) as Articles;
+		const index = articleJSON.articles.findIndex((art: { id: string }) => art.id === updatedArticle.id);
+		if (index === -1) throw new Error(`Cannot find article with ID ${updatedArticle.id}`);
+		articleJSON.articles[index] = updatedArticle;
+		await saveToJSON(articleJSON);
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to update article:', error);
+		throw new Error(`Failed to update article: ${error}`);
+	}
+}
+
 /**
  * Save the article without contents to the database
  * @param {Article} article 
@@ -381,7 +518,8 @@ async function checkIfContentAlreadyPostedForArticle(article: Article, content:
 		const postedArticle: Article | null = await loadArticle(article.id);
 		if (postedArticle === null || postedArticle === undefined) return false;
 		const postedArticleContentList: Array<Content> = await loadArticleContent(postedArticle);
-		const postedContent: Content = postedArticleContentList.find((posCon: { value: string, type: ContentType }) => posCon.type === content.type && posCon.value === content.value);
+		const contentId = getContentId(article.id, content);
+		const postedContent: Content = postedArticleContentList.find((posCon: Content) => getContentId(postedArticle.id, posCon) === contentId);
 		if (!postedContent.alreadyPosted) return false;
 		return true;
 	} catch (error) {
@@ -395,140 +533,124 @@ async function checkIfContentAlreadyPostedForArticle(article: Article, content:
 }
 
 /**
- * Strip the HTML elements from content and decorate text
- * @param {string} content 
- * @returns {Promise<{contentRaw: string, linkCollection: Link[]}>}
+ * Render HTML into plain text and the links it contains, walking the parsed tree once.
+ * All entities are decoded and whitespace is collapsed like a browser would (<br> becomes
+ * a line break). Every link keeps the exact position of its text, so its facet can be
+ * placed precisely - even if the same text appears earlier in the post
+ * @param {string} html - The HTML to be rendered
+ * @param {number} [referenceYear] - The year the "years ago" of anniversaries are calculated from (default is the current year)
+ * @returns {Promise<{ text: string, links: Link[] }>}
  */
-async function stripHTMLElementsAndDecorateText(content: string): Promise<{ contentRaw: string; linkCollection: Link[]; }> {
-	let contentRaw = content;
-
-	// strip weird characters
-
-	// \n
-	contentRaw = contentRaw.replace('\n', '');
-
-	// &#160;
-	contentRaw = contentRaw.replace('&#160;', ' ');
-	contentRaw = contentRaw.replace('&#8722;', '−');
-
-	// now strip all remaining HTML tags
-
-	// <p>
-	const pHTML = parse(contentRaw).querySelectorAll('p');
-	for (const p of pHTML) {
-		contentRaw = contentRaw.replace(p.toString(), p.innerHTML);
-	}
-
-	// <li>
-	const listHTMLNodes = parse(contentRaw).querySelectorAll('li');
-	for (const li of listHTMLNodes) {
-		contentRaw = contentRaw.replace(li.toString(), li.innerHTML);
-		contentRaw = contentRaw.replace('(', '');
-		//contentRaw = contentRaw.replace(')', '');
-	}
-
-	// <b>
-	const boldHTMLNodes = parse(contentRaw).querySelectorAll('b');
-	for (const boldNode of boldHTMLNodes) {
-		contentRaw = contentRaw.replace(boldNode.toString(), boldNode.innerHTML);
-	}
-
-	// <abbr>
-	const abbrHTMLNodes = parse(contentRaw).querySelectorAll('abbr');
-	for (const abbrNode of abbrHTMLNodes) {
-		if (abbrNode.innerHTML.includes('b.')) {
-			contentRaw = contentRaw.replace(abbrNode.toString(), abbrNode.innerHTML).replace('b.', `was born <<YEARSAGO>> (`)
-		} else if (abbrNode.innerHTML.includes('d.')) {
-			contentRaw = contentRaw.replace(abbrNode.toString(), abbrNode.innerHTML).replace('d.', `died <<YEARSAGO>> (`)
+async function renderHTMLToText(html: string, referenceYear: number = new Date().getUTCFullYear()): Promise<{ text: string, links: Link[] }> {
+	let text = '';
+	let pendingSpace = false;
+	const links: Link[] = [];
+
+	// whitespace is only written once it is followed by a word, so the text never ends with a space
+	// and dropped elements (e.g. "<i>(pictured)</i>.") do not leave a space in front of punctuation
+	const append = (value: string): void => {
+		for (const part of value.split(/(\s+)/)) {
+			if (part === '') continue;
+			if (/^\s+$/.test(part)) {
+				pendingSpace = true;
+				continue;
+			}
+			if (pendingSpace && text.length > 0 && !/[\n(]$/.test(text) && !/^[.,;:!?)]/.test(part)) text += ' ';
+			pendingSpace = false;
+			text += part;
 		}
-	}
+	};
+
+	/**
+	 * Get the "years ago" phrase of an anniversary, from the year that follows the abbreviation, e.g. (b. 1796)
+	 */
+	const getYearsAgo = (abbr: HTMLElement): string => {
+		// the text of the nodes after the abbreviation - an earlier "d." (e.g. in a name) must not be mistaken for it
+		const siblings = abbr.parentNode ? abbr.parentNode.childNodes : [];
+		const textAfterAbbr = siblings.slice(siblings.indexOf(abbr) + 1).map(node => node.text).join('');
+		const year = parseYear(textAfterAbbr);
+		if (!year) return '';
+		const yearsAgo = getYearsBetween(year.year, referenceYear);
+		log(LogLevel.DEBUG, 'Difference in years to today:', yearsAgo);
+		return LOCALE.phrases.yearsAgo.replace('<<YEARS>>', yearsAgo.toString());
+	};
 
-	// need to strip <i> only if it references a picture 
-	// that goes with the post
-	const iHTMLNodes = parse(contentRaw).querySelectorAll('i');
-	for (const i of iHTMLNodes) {
-		// bugfix for issue #1:
-		// https://github.com/fl0-at/wikipedia-onthisday-bsky-bot/issues/1
-		if (i.innerHTML.includes('pictured')) {
-			contentRaw = contentRaw.replace(i.toString(), '');
-		} else {
-			contentRaw = contentRaw.replace(i.toString(), i.innerHTML);
+	const renderNode = async (node: Node): Promise<void> => {
+		if (node.nodeType === NodeType.TEXT_NODE) {
+			append(node.text);
+			return;
 		}
-	}
-
-	// future improvement - make a separate type of post
-	// for the "featured" event of the day with the picture
-	/*
-		maybe in the future we could 
-		parse the picture and attach it 
-		to the post somehow?
-	*/
-
-	// <sup> and <sub>
-	// this is a bit tricky, because we need to replace
-	// the HTML tags for superscript and subscript with
-	// actual characters in unicode, using custom functions
-	// bugfix for issue #4:
-	// https://github.com/fl0-at/wikipedia-onthisday-bsky-bot/issues/4
-	const supHTMLNodes = parse(contentRaw).querySelectorAll('sup');
-	for (const sup of supHTMLNodes) {
-		contentRaw = contentRaw.replace(sup.toString(), await convertToSuperscript(sup.innerHTML));
-	}
-	const subHTMLNodes = parse(contentRaw).querySelectorAll('sub');
-	for (const sub of subHTMLNodes) {
-		contentRaw = contentRaw.replace(sub.toString(), await convertToSubscript(sub.innerHTML));
-	}
-	// to clean up, let's replace all "double spaces"
-	// with single ones and make sure there are no
-	// spaces before or after parentheses
-	contentRaw = contentRaw.replace('  ', ' ');
-	contentRaw = contentRaw.replace('( ', '(');
-	contentRaw = contentRaw.replace(' )', ')');
-
-	// if the content includes either <<YEARSAGO>>
-	// we want to replace <<YEARSAGO>> with the number of years
-	if (contentRaw.includes('<<YEARSAGO>>')) {
-		const yearString: string = contentRaw.match(/\((\d+)\)/)[0].toString().replace('(', '').replace(')', '');
-		log(LogLevel.TRACE, 'Year of anniversary as string:', yearString);
-		const year: number = Number(yearString);
-		log(LogLevel.TRACE, 'Year of anniversary:', year);
-		const yearsAgo: number = new Date().getUTCFullYear() - year;
-		log(LogLevel.DEBUG, 'Difference in years to today:', yearsAgo);
-		contentRaw = contentRaw.replace('<<YEARSAGO>>', yearsAgo.toString() + ' years ago');
-	}
+		if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+		const element = node as HTMLElement;
+		switch (element.rawTagName ? element.rawTagName.toLowerCase() : '') {
+			case 'br':
+				text += '\n';
+				pendingSpace = false;
+				return;
+			case 'script':
+			case 'style':
+				return;
+			case 'i':
+				// bugfix for issue #1, the reference to the picture that goes with the post is dropped:
+				// https://github.com/fl0-at/wikipedia-onthisday-bsky-bot/issues/1
+				if (element.text.includes(LOCALE.picturedMarker)) return;
+				break;
+			case 'sup':
+				// bugfix for issue #4, superscript and subscript are rendered with unicode characters:
+				// https://github.com/fl0-at/wikipedia-onthisday-bsky-bot/issues/4
+				append(await convertToSuperscript(element.text));
+				return;
+			case 'sub':
+				append(await convertToSubscript(element.text));
+				return;
+			case 'abbr': {
+				const abbrText = element.text;
+				const phrase = abbrText.includes(LOCALE.bornAbbreviation) ? LOCALE.phrases.born : abbrText.includes(LOCALE.diedAbbreviation) ? LOCALE.phrases.died : null;
+				if (!phrase) break;
+				// "(b. 1796)" is rendered as "was born 230 years ago (1796)"
+				if (text.endsWith('(')) {
+					text = text.substring(0, text.length - 1).replace(/ $/, '');
+					pendingSpace = true;
+				}
+				append(phrase.replace('<<YEARSAGO>>', getYearsAgo(element)) + ' (');
+				return;
+			}
+			case 'a': {
+				const href = element.getAttribute('href');
+				const linkStart = text.length;
+				for (const child of element.childNodes) await renderNode(child);
+				if (!href) return;
+				// the space in front of the link is not part of it
+				const start = text.charAt(linkStart) === ' ' ? linkStart + 1 : linkStart;
+				if (text.length > start) {
+					links.push({
+						text: text.substring(start),
+						url: /^https?:\/\//.test(href) ? href : WIKI_URL + href,
+						start: start,
+						end: text.length
+					});
+				}
+				return;
+			}
+		}
+		for (const child of element.childNodes) await renderNode(child);
+	};
 
-	// moved the link collection creation to the end of our function
-	// as part of bugfix for issue #2:
-	// https://github.com/fl0-at/wikipedia-onthisday-bsky-bot/issues/2
-
-	// let's create a link collection object 
-	// so we don't lose the context of the links
-	const linkCollection = new Array<Link>;
-	const aHrefNodes = parse(contentRaw).querySelectorAll('a');
-
-	// push those links into a link collection
-	// and then replace HTML links with text only
-	for (const aHref of aHrefNodes) {
-		linkCollection.push({
-			text: aHref.innerText,
-			url: WIKI_URL + aHref.getAttribute('href')
-		});
-		// strip the HTML tags and replace with just the text
-		contentRaw = contentRaw.replace(aHref.toString(), aHref.innerText);
-		log(LogLevel.DEBUG, 'linkText:', aHref.innerText, 'WIKI_URL:', WIKI_URL + aHref.getAttribute('href'));
-	}
+	await renderNode(parse(html));
+	log(LogLevel.TRACE, 'Rendered text:', text, 'Links:', JSON.stringify(links));
+	return { text, links };
+}
 
+/**
+ * Strip the HTML elements from content and decorate text
+ * @param {string} content - The HTML content
+ * @param {number} [referenceYear] - The year the "years ago" of anniversaries are calculated from (default is the current year)
+ * @returns {Promise<{contentRaw: string, linkCollection: Link[]}>}
+ */
+async function stripHTMLElementsAndDecorateText(content: string, referenceYear?: number): Promise<{ contentRaw: string; linkCollection: Link[]; }> {
 	// decorate our text with a nice calendar emoji
-	// the decorator function might be enhanced
-	// in the future, with additional emojis
-	contentRaw = await decorateText('<<CALENDAR>> ' + contentRaw);
-
-	/**********************************************\
-	| we will return stripped, decorated text and  |
-	| our freshly created link collection object   |
-	| in the reponse of this function		   	   |
-	\**********************************************/
-	return { contentRaw, linkCollection };
+	const { text, links } = await renderHTMLToText('📅 ' + content, referenceYear);
+	return { contentRaw: text, linkCollection: links };
 }
 
 /**
@@ -857,85 +979,16 @@ async function convertToSuperscript(text: string): Promise<string> {
 }
 
 /**
- * Prefix the text with the "todayText"
- * @param {Article} article 
- * @param {Content} content 
- * @returns {Promise<string>}
- */
-async function prefixText(article: Article, content: Content): Promise<string> {
-	/********************************************************\
-	** POST PREFIXER 												**
-	** ---------------------------------------------------- **
-	** ==> need to prefix all posts with the by the			**
-	** ==> "todayText", i.e. like this:						**
-	** ==> "On this day, December 15th, ..."				**
-	** ---------------------------------------------------- **
-	\********************************************************/
-	log(LogLevel.DEBUG, 'prefixText called...');
-	const articleContents = await loadArticleContent(article);
-	log(LogLevel.TRACE, 'Loaded article contents:', JSON.stringify(articleContents, null, 2));
-	const todayContent: Content = JSON.parse(JSON.stringify(articleContents)).find((cont: { type: ContentType, value: string }) => cont.type === ContentType.todayText);
-	log(LogLevel.TRACE, 'Fetched todayContent:', JSON.stringify(todayContent, null, 2));
-	const todayText = todayContent.value;
-	log(LogLevel.TRACE, 'todayText:', todayText);
-	log(LogLevel.DEBUG, 'Trying to prefix content...');
-
-	// depending on the content, we will build our posts differently
-	let prefixedText = '';
-	let prefixedContent = content.value;
-
-	switch (content.type) {
-		case ContentType.anniversary:
-			// we want to prefix the line with an emoji, depending on whether the person died or was born
-			if(content.value.includes('<abbr title="born">')) {
-				prefixedContent = '<<BORN>> ' + prefixedContent;
-			} else if(content.value.includes('<abbr title="died">')) {
-				prefixedContent = '<<DIED>> ' + prefixedContent;
-			}
-			prefixedText = '#Anniversary - #OnThisDay, ' + todayText + ':\n\n' + prefixedContent;
-			break;
-		case ContentType.event:
-			prefixedContent = prefixedContent.replace('</a> – ', '</a>:\n\n');
-			prefixedText = '#OnThisDay, ' + todayText + ' in ' + prefixedContent;
-			break;
-		case ContentType.featuredEvent:
-			prefixedContent = prefixedContent.replace('</a> – ', '</a>:\n\n');
-			prefixedText = '#PicOfTheDay - #OnThisDay, ' + todayText + ' in ' + prefixedContent;
-			break;
-		case ContentType.holiday:
-			prefixedContent = 'the following holiday is observed:\n\n' + prefixedContent;
-			prefixedText = '#OnThisDay, ' + todayText + ', ' + prefixedContent;
-			break;
-		default:
-			prefixedText = '#OnThisDay, ' + todayText + ' ' + content.value;
-			break;
-	}
-
-
-	log(LogLevel.DEBUG, 'prefixedText:', prefixedText);
-	return prefixedText;
-}
-
-/**
- * Decorates the text and replaces certain placeholders with emojis
- * and other decorations
- * @param {string} text the text you want to decorate
- * @returns {Promise<string>} the decorated text
+ * Save a posted post to JSON
+ * @param {PersistedPost} newPost - The post to be saved
+ * @returns {Promise<void>}
  */
-async function decorateText(text: string): Promise<string> {
-	let decoratedText = text.replace('<<CALENDAR>> ', '📅 ');
-	decoratedText = decoratedText.replace('<<BORN>>', '🚼');
-	decoratedText = decoratedText.replace('<<DIED>>', '✝');
-
-	return decoratedText;
-}
-
-async function savePostToJSON(newPost: BlueskyPost) {
+async function savePostToJSON(newPost: PersistedPost): Promise<void> {
 	try {
 		// load the saved postings file if it exists
 		const pFromFile: Posts = await loadFromJSON(POSTS_FILENAME) as Posts;
 		// create a new array to hold the posts
-		const pArr: Array<BlueskyPost> = [];
+		const pArr: Array<PersistedPost> = [];
 		if (pFromFile.posts.length > 0) {
 			const postList: Posts = { "posts": pFromFile.posts };
 			for (const post of postList.posts) {
@@ -958,6 +1011,202 @@ async function savePostToJSON(newPost: BlueskyPost) {
 	}
 }
 
+/**
+ * Load all posts
+ * @returns {Promise<PersistedPost[]>}
+ */
+async function loadPosts(): Promise<PersistedPost[]> {
+	try {
+		const json: Posts = await loadFromJSON(POSTS_FILENAME) as Posts;
+		return json.posts;
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to load posts:', error);
+		return [];
+	}
+}
+
+/**
+ * Load a single post by its AT URI
+ * @param {string} uri - The AT URI of the post
+ * @returns {Promise<PersistedPost|null>}
+ */
+async function loadPost(uri: string): Promise<PersistedPost|null> {
+	const post = (await loadPosts()).find(p => p.uri === uri);
+	return post || null;
+}
+
+/**
+ * Load all posts (i.e. the whole thread) that have been created for a content
+ * @param {string} contentId - The stable id of the content
+ * @returns {Promise<PersistedPost[]>}
+ */
+async function loadPostsForContent(contentId: string): Promise<PersistedPost[]> {
+	return (await loadPosts()).filter(p => p.contentId === contentId);
+}
+
+/**
+ * Normalize the value of a content, so that markup or whitespace changes
+ * do not change the id of the content
+ * @param {string} value - The (HTML) value of the content
+ * @returns {string} the plain, lower case text with collapsed whitespace
+ */
+function normalizeContentText(value: string): string {
+	return parse(value).text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Generate the stable id of a content, derived from the article id, the type and the normalized text of the content
+ * @param {string} articleId - The id of the article the content belongs to
+ * @param {ContentType} type - The type of the content
+ * @param {string} value - The value of the content
+ * @returns {string}
+ */
+function generateContentId(articleId: string, type: ContentType, value: string): string {
+	return createHash('sha256').update(articleId + '\n' + type + '\n' + normalizeContentText(value)).digest('hex').substring(0, 16);
+}
+
+/**
+ * Assign stable ids to all contents of an article that do not have one yet.
+ * Identical entries within the same article are told apart by a numeric suffix
+ * @param {Article} article - The article
+ * @returns {boolean} true if at least one id has been assigned
+ */
+function assignContentIds(article: Article): boolean {
+	const usedIds = new Set<string>(article.contentList.filter(c => c.id).map(c => c.id));
+	let assigned = false;
+	for (const content of article.contentList) {
+		if (content.id) continue;
+		const baseId = generateContentId(article.id, content.type, content.value);
+		let id = baseId;
+		for (let n = 2; usedIds.has(id); n++) id = `${baseId}-${n}`;
+		content.id = id;
+		usedIds.add(id);
+		assigned = true;
+	}
+	return assigned;
+}
+
+/**
+ * Get the stable id of a content. Contents that have been stored before ids
+ * were introduced get their id generated on the fly
+ * @param {string} articleId - The id of the article the content belongs to
+ * @param {Content} content - The content
+ * @returns {string}
+ */
+function getContentId(articleId: string, content: Content): string {
+	return content.id || generateContentId(articleId, content.type, content.value);
+}
+
+/**
+ * Map the ids that posts have been stored with before content ids were introduced
+ * (derived from the raw value of the content) to the stable ids of the contents
+ * @param {Article[]} articles - The articles, with their content ids assigned
+ * @returns {Map<string, string>} the stable content ids by legacy id
+ */
+function getLegacyContentIds(articles: Article[]): Map<string, string> {
+	const contentIds = new Map<string, string>();
+	for (const article of articles) {
+		for (const content of article.contentList) {
+			const legacyId = createHash('sha256').update(article.id + '\n' + content.type + '\n' + content.value).digest('hex').substring(0, 16);
+			if (content.id && legacyId !== content.id) contentIds.set(legacyId, content.id);
+		}
+	}
+	return contentIds;
+}
+
+/**
+ * Assign stable ids to the contents of articles and outbox entries that have been stored
+ * before content ids were introduced, and let the stored posts refer to these ids
+ * @returns {Promise<void>}
+ */
+async function migrateContentIds(): Promise<void> {
+	if (fsSync.existsSync(DB_PATH + '/' + ARTICLES_FILENAME)) {
+		const articles = await loadArticles();
+		const migratedArticles = articles.filter(article => assignContentIds(article));
+		if (migratedArticles.length > 0) {
+			log(LogLevel.INFO, `Assigning content ids to ${migratedArticles.length} article(s) in ${ARTICLES_FILENAME}...`);
+			await saveToJSON({ articles: articles });
+		}
+
+		if (fsSync.existsSync(DB_PATH + '/' + OUTBOX_FILENAME)) {
+			const outbox = await loadOutbox();
+			let outboxMigrated = false;
+			for (const entry of outbox.filter(e => !e.content.id)) {
+				// take over the id of the stored content, so duplicates keep their suffix
+				const article = articles.find(a => a.id === entry.articleId);
+				const storedContent = article?.contentList.find(c => c.type === entry.content.type && c.value === entry.content.value);
+				entry.content.id = storedContent ? storedContent.id : getContentId(entry.articleId, entry.content);
+				outboxMigrated = true;
+			}
+			if (outboxMigrated) {
+				log(LogLevel.INFO, `Assigning content ids to entries in ${OUTBOX_FILENAME}...`);
+				await saveToJSON({ outbox: outbox });
+			}
+		}
+
+		if (fsSync.existsSync(DB_PATH + '/' + POSTS_FILENAME)) {
+			const contentIds = getLegacyContentIds(articles);
+			const posts = await loadPosts();
+			const migratedPosts = posts.filter(p => contentIds.has(p.contentId));
+			for (const post of migratedPosts) post.contentId = contentIds.get(post.contentId);
+			if (migratedPosts.length > 0) {
+				log(LogLevel.INFO, `Assigning content ids to ${migratedPosts.length} post(s) in ${POSTS_FILENAME}...`);
+				await saveToJSON({ posts: posts });
+			}
+		}
+	}
+}
+
+/**
+ * Load all entries of the outbox
+ * @returns {Promise<OutboxEntry[]>}
+ */
+async function loadOutbox(): Promise<OutboxEntry[]> {
+	try {
+		const json: Outbox = await loadFromJSON(OUTBOX_FILENAME) as Outbox;
+		return json.outbox;
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to load outbox:', error);
+		return [];
+	}
+}
+
+/**
+ * Save an outbox entry to JSON - existing entries with the same id will be updated
+ * @param {OutboxEntry} entry - The outbox entry to be saved
+ * @returns {Promise<void>}
+ */
+async function saveOutboxEntryToJSON(entry: OutboxEntry): Promise<void> {
+	try {
+		const json: Outbox = await loadFromJSON(OUTBOX_FILENAME) as Outbox;
+		const index = json.outbox.findIndex(e => e.id === entry.id);
+		if (index === -1) {
+			json.outbox.push(entry);
+		} else {
+			json.outbox[index] = entry;
+		}
+		await saveToJSON(json);
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to save outbox entry to JSON:', error);
+		throw new Error(`Failed to save outbox entry to JSON: ${error}`);
+	}
+}
+
+/**
+ * Append changes of the feed to the changelog file in DB_PATH (one JSON object per line)
+ * @param {ContentChange[]} changes - The changes to be recorded
+ * @returns {Promise<void>}
+ */
+async function appendToChangelog(changes: ContentChange[]): Promise<void> {
+	if (changes.length === 0) return;
+	try {
+		await fs.mkdir(DB_PATH, { recursive: true });
+		await fs.appendFile(DB_PATH + '/' + CHANGELOG_FILENAME, changes.map(change => JSON.stringify(change)).join('\n') + '\n', 'utf-8');
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to write changelog:', error);
+	}
+}
+
 /**
  * Log a message to the console and optionally to a file
  * @param {LogLevel | string} level - The log level
@@ -1025,6 +1274,99 @@ async function log(level: LogLevel | string, message: string, ...optionalParams:
 	return;
 }
 
+/**
+ * Get the timezone configured in TIMEZONE, or the timezone of the server if it is not set or invalid
+ * @returns {string} the IANA name of the timezone
+ */
+function getTimezone(): string {
+	const serverTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+	if (!process.env.TIMEZONE) return serverTimezone;
+	try {
+		// throws a RangeError for unknown timezones
+		new Intl.DateTimeFormat('en-US', { timeZone: process.env.TIMEZONE });
+		return process.env.TIMEZONE;
+	} catch {
+		log(LogLevel.WARNING, 'Invalid TIMEZONE', process.env.TIMEZONE, '- using', serverTimezone, 'instead...');
+		return serverTimezone;
+	}
+}
+
+/**
+ * Get the calendar date and wall clock time of a date in the configured TIMEZONE
+ * @param {Date} date - The date
+ * @returns {{ year: number, month: number, day: number, hour: number, minute: number, second: number }} the parts of the date (month starts at 1)
+ */
+function getZonedDateParts(date: Date): { year: number, month: number, day: number, hour: number, minute: number, second: number } {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone: TIMEZONE,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+		second: 'numeric'
+	}).formatToParts(date);
+	const getPart = (type: string): number => Number(parts.find(part => part.type === type).value);
+	return { year: getPart('year'), month: getPart('month'), day: getPart('day'), hour: getPart('hour'), minute: getPart('minute'), second: getPart('second') };
+}
+
+/**
+ * Get the hour of a date in the configured TIMEZONE
+ * @param {Date} date - The date
+ * @returns {number}
+ */
+function getHourInTimezone(date: Date): number {
+	return getZonedDateParts(date).hour;
+}
+
+/**
+ * Get the offset of the configured TIMEZONE from UTC at a date (e.g. 2 hours for CEST)
+ * @param {Date} date - The date
+ * @returns {number} the offset in milliseconds
+ */
+function getTimezoneOffset(date: Date): number {
+	const parts = getZonedDateParts(date);
+	const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+	return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Get the date at a wall clock time in the configured TIMEZONE on the day of an article
+ * @param {string} articleId - The id of the article, i.e. its day
+ * @param {number} hour - The hour
+ * @param {number} [minute=0] - The minute
+ * @returns {Date}
+ */
+function getDateInTimezone(articleId: string, hour: number, minute: number = 0): Date {
+	const day = new Date(articleId);
+	const wallClock = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour, minute);
+	// the offset is determined twice, as it might change in between (daylight saving time)
+	const guess = wallClock - getTimezoneOffset(new Date(wallClock));
+	return new Date(wallClock - getTimezoneOffset(new Date(guess)));
+}
+
+/**
+ * Get the id of the article for a date, which is the ISO string of midnight in UTC
+ * of the date's calendar day in the configured TIMEZONE (e.g. 2024-12-15T00:00:00.000Z)
+ * @param {Date} date - The date
+ * @returns {string}
+ */
+function getArticleIdForDate(date: Date): string {
+	const parts = getZonedDateParts(date);
+	return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, 0, 0, 0, 0)).toISOString();
+}
+
+/**
+ * Get a date that lies on the day of an article in the configured TIMEZONE (noon of that day),
+ * so it can be passed to functions that expect a date, like fetchOnThisDayArticle
+ * @param {string} articleId - The id of the article
+ * @returns {Date}
+ */
+function getDateForArticleId(articleId: string): Date {
+	return getDateInTimezone(articleId, 12);
+}
+
 /**
  * Verify the cron notation
  * @param {string} cron - The cron schedule
@@ -1048,6 +1390,7 @@ function isValidCronNotation(cron: string): boolean {
 
 export {
 	saveArticleToJSON,
+	updateArticleInJSON,
 	saveArticleWithoutContents,
 	saveArticleContent,
 	loadArticle,
@@ -1056,9 +1399,30 @@ export {
 	markArticleContentAsPosted,
 	getBlobFromImgUri,
 	checkIfContentAlreadyPostedForArticle,
-	prefixText,
 	stripHTMLElementsAndDecorateText,
 	savePostToJSON,
+	loadPosts,
+	loadPost,
+	loadPostsForContent,
+	getContentId,
+	normalizeContentText,
+	generateContentId,
+	assignContentIds,
+	getLegacyContentIds,
+	migrateContentIds,
+	loadOutbox,
+	appendToChangelog,
+	saveOutboxEntryToJSON,
+	loadSessionFromJSON,
+	saveSessionToJSON,
+	deleteSessionFromJSON,
+	loadPlanFromJSON,
+	savePlanToJSON,
 	log,
+	getArticleIdForDate,
+	getDateForArticleId,
+	getDateInTimezone,
+	getHourInTimezone,
+	TIMEZONE,
 	isValidCronNotation
 };
\ No newline at end of file
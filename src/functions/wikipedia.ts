@@ -3,29 +3,79 @@ import RSSParser from 'rss-parser';
 import { parse } from 'node-html-parser';
 
 import { Article, Content } from '../classes/classes';
-import { log } from '../functions/utils';
-import { LogLevel, ContentType } from '../utils/enums';
-import { OnThisDayArticle, PicturedEvent, Picture } from '../utils/interfaces';
+import { assignContentIds, getArticleIdForDate, log } from '../functions/utils';
+import { applyRules } from './rules';
+import { applyOverrides } from './overrides';
+import { applyMilestones } from './milestones';
+import { LogLevel, ContentType, ContentSourceType } from '../utils/enums';
+import { LOCALE } from '../utils/locales';
+import { OnThisDayArticle, PicturedEvent, Picture, Link, ArticleSummary, ImageAttribution, ContentSource, ImageInfoResponse, OnThisDayRestEntry, OnThisDayRestFeed, OnThisDayRestPage } from '../utils/interfaces';
 dotenv.config();
 
 const WIKIPEDIA_MAIN_URL = process.env.WIKIPEDIA_MAIN_URL! || 'https://en.wikipedia.org';
 const ATOM_FEED_URL = process.env.RSS_FEED_URL! || '/w/api.php?action=featuredfeed&feed=onthisday&feedformat=atom';
 const DEBUG_MODE = process.env.DEBUG_MODE === 'true' || false;
+const CONTENT_SOURCE = (process.env.CONTENT_SOURCE as ContentSourceType) || ContentSourceType.atom;
+const REST_FEED_URL = process.env.REST_FEED_URL || '/api/rest_v1/feed/onthisday/all/';
+const REST_FEED_TYPES = (process.env.REST_FEED_TYPES || 'selected,holidays,births,deaths').split(',').map(t => t.trim());
+const REST_FEED_MAX_ENTRIES_PER_TYPE = Number(process.env.REST_FEED_MAX_ENTRIES_PER_TYPE) || 5;
+const SUMMARY_API_URL = '/api/rest_v1/page/summary/';
+const PARSE_API_URL = '/w/api.php?action=parse&prop=text&format=json&formatversion=2&page=';
+const IMAGEINFO_API_URL = '/w/api.php?action=query&prop=imageinfo&iiprop=url|extmetadata&format=json&formatversion=2&titles=File:';
+const COMMONS_URL = 'https://commons.wikimedia.org';
+// e.g. https://upload.wikimedia.org/wikipedia/commons/thumb/a/ab/Some_picture.jpg/220px-Some_picture.jpg
+const UPLOAD_URL_REGEX = /\/wikipedia\/([^/]+)\/(?:thumb\/)?[0-9a-f]\/[0-9a-f]{2}\/([^/]+)/;
+// links to years (e.g. /wiki/1796, /wiki/44_BC or /wiki/AD_79) are never the main article of an entry
+const YEAR_LINK_REGEX = /^\/wiki\/(AD_)?\d+(_BC)?$/;
+// link card descriptions should stay short
+const MAX_DESCRIPTION_LENGTH = 300;
 
 /**
- * Fetches the Wikipedia On This Day article for today
+ * The available sources of "On this day" content
+ */
+const contentSources: Array<ContentSource> = [
+	{ type: ContentSourceType.atom, fetchArticle: fetchOnThisDayArticleFromAtomFeed },
+	{ type: ContentSourceType.rest, fetchArticle: fetchOnThisDayArticleFromRestApi }
+];
+
+/**
+ * Fetches the Wikipedia On This Day article for a date (today by default)
+ * from the content source configured in CONTENT_SOURCE
+ * @param {Date} [date=new Date()] - The date to fetch the article for
+ * @returns {Promise<Article|null>} a Promise that resolves with an Article object or null
+ */
+async function fetchOnThisDayArticle(date: Date = new Date()): Promise<Article|null> {
+	const contentSource = contentSources.find(source => source.type === CONTENT_SOURCE);
+	if (!contentSource) {
+		log(LogLevel.ERROR, 'Invalid content source:', CONTENT_SOURCE);
+		return null;
+	}
+	log(LogLevel.DEBUG, 'Using content source:', contentSource.type, 'for date:', getArticleIdForDate(date));
+	const article = await contentSource.fetchArticle(date);
+	if (!article) return null;
+	// the editorial overrides are merged in first, so the rules apply to custom contents as well
+	await applyOverrides(article);
+	// contents are flagged (or skipped) as configured in the rules file
+	await applyRules(article);
+	return applyMilestones(article);
+}
+
+/**
+ * Fetches the Wikipedia On This Day article for a date from the Atom feed.
+ * As the feed only holds the most recent days, the article is fetched from the
+ * "Selected anniversaries" page of that date if it is not part of the feed
+ * @param {Date} date - The date to fetch the article for
  * @returns {Promise<Article|null>} a Promise that resolves with an Article object or null
  */
-async function fetchOnThisDayArticle(): Promise<Article|null> {
-	if (DEBUG_MODE) log(LogLevel.DEBUG, 'fetchOnThisDayArticles called');
+async function fetchOnThisDayArticleFromAtomFeed(date: Date): Promise<Article|null> {
+	if (DEBUG_MODE) log(LogLevel.DEBUG, 'fetchOnThisDayArticleFromAtomFeed called');
 	const parser = new RSSParser();
 
 	try {
 		log(LogLevel.DEBUG, 'Fetching feed from:', WIKIPEDIA_MAIN_URL + ATOM_FEED_URL);
 		const feed = await parser.parseURL(WIKIPEDIA_MAIN_URL + ATOM_FEED_URL);
 
-		const currentDate = new Date();
-		const formattedDate = new Date(Date.UTC(currentDate.getUTCFullYear(), currentDate.getUTCMonth(), currentDate.getUTCDate(), 0, 0, 0, 0)).toISOString();
+		const formattedDate = getArticleIdForDate(date);
 
 		const filteredArticles = feed.items.filter(item => {
 			try {
@@ -51,44 +101,90 @@ async function fetchOnThisDayArticle(): Promise<Article|null> {
 
 		log(LogLevel.DEBUG, 'Number of matching articles:', articles.length);
 		if (articles.length > 1) log(LogLevel.WARNING, 'Found more than one article - returning only the first one!');				
-		
-		// for the one article we want to return, we need to build the article object
-		const contentList = new Array<Content>;
-
-		// push today text into our new content list
-		contentList.push(new Content(ContentType.todayText, await getOnThisDayTodayText(articles[0]),null,true));
 
-		// push holiday entries into our new content list
-		for(const holiday of await getOnThisDayHolidays(articles[0])) {
-			contentList.push(new Content(ContentType.holiday, holiday));
+		// the feed does not reach that far, so we need to
+		// fall back to the "Selected anniversaries" page
+		if (articles.length === 0) {
+			log(LogLevel.INFO, 'Date is not part of the Atom feed, fetching "Selected anniversaries" page instead:', formattedDate);
+			return await buildArticleFromOnThisDayArticle(await fetchSelectedAnniversariesPage(date));
 		}
 
-		// push featured event entries into our new content list
-		for(const featuredEvent of await getOnThisDayFeaturedEvents(articles[0])) {
-			contentList.push(new Content(ContentType.featuredEvent, featuredEvent.event, featuredEvent.img));
-		}
+		return await buildArticleFromOnThisDayArticle(articles[0]);
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to fetch Atom feed:', error);
+		return null;
+	}
+}
 
-		// push event entries into our new content list
-		for(const event of await getOnThisDayEvents(articles[0])) {
-			contentList.push(new Content(ContentType.event, event));
-		}
+/**
+ * Fetches the "Selected anniversaries" page of a date, which is the page
+ * the Atom feed (and the main page) is built from
+ * @param {Date} date - The date to fetch the page for
+ * @returns {Promise<OnThisDayArticle>} a Promise that resolves with the page, in the same format as an Atom feed item
+ */
+async function fetchSelectedAnniversariesPage(date: Date): Promise<OnThisDayArticle> {
+	// the article id is midnight in UTC of the date's day in the configured timezone
+	const dayUTC = new Date(getArticleIdForDate(date));
+	const month = new Intl.DateTimeFormat(LOCALE.language, { month: 'long', timeZone: 'UTC' }).format(dayUTC);
+	const day = String(dayUTC.getUTCDate());
+	const page = LOCALE.selectedAnniversariesPage.replace('<<MONTH>>', month).replace('<<DAY>>', day);
+	const pageUrl = WIKIPEDIA_MAIN_URL + PARSE_API_URL + encodeURIComponent(page);
 
-		// push anniversary entries into our new content list
-		for(const anniversary of await getOnThisDayAnniversaries(articles[0])) {
-			contentList.push(new Content(ContentType.anniversary, anniversary));
-		}
+	log(LogLevel.DEBUG, 'Fetching "Selected anniversaries" page from:', pageUrl);
+	const res = await fetch(pageUrl);
+	if (!res.ok) throw new Error(`Unexpected response status ${res.status}`);
+	const json = await res.json();
+	if (json.error) throw new Error(`Failed to parse page ${page}: ${json.error.info}`);
 
-		log(LogLevel.DEBUG, 'Article ID:', articles[0].id);
-		log(LogLevel.TRACE, 'Content List for this article:', contentList);
-		
-		const article = new Article(articles[0].id, articles[0].link, contentList);
+	return {
+		id: getArticleIdForDate(date),
+		title: json.parse.title,
+		contents: json.parse.text,
+		link: WIKIPEDIA_MAIN_URL + '/wiki/' + encodeURI(page.replace(/ /g, '_'))
+	};
+}
 
-		log(LogLevel.TRACE, 'Returning article object:', article);
-		return article;
-	} catch (error) {
-		log(LogLevel.ERROR, 'Failed to fetch Atom feed:', error);
-		return null;
+/**
+ * Builds an Article object from an "On this day" article of the Atom feed
+ * (or a "Selected anniversaries" page)
+ * @param {OnThisDayArticle} onThisDayArticle - The "On this day" article
+ * @returns {Promise<Article>} a Promise that resolves with the article object
+ */
+async function buildArticleFromOnThisDayArticle(onThisDayArticle: OnThisDayArticle): Promise<Article> {
+	// for the one article we want to return, we need to build the article object
+	const contentList = new Array<Content>;
+
+	// push today text into our new content list
+	contentList.push(new Content(ContentType.todayText, await getOnThisDayTodayText(onThisDayArticle),null,true));
+
+	// push holiday entries into our new content list
+	for(const holiday of await getOnThisDayHolidays(onThisDayArticle)) {
+		contentList.push(new Content(ContentType.holiday, holiday));
+	}
+
+	// push featured event entries into our new content list
+	for(const featuredEvent of await getOnThisDayFeaturedEvents(onThisDayArticle)) {
+		contentList.push(new Content(ContentType.featuredEvent, featuredEvent.event, featuredEvent.img));
+	}
+
+	// push event entries into our new content list
+	for(const event of await getOnThisDayEvents(onThisDayArticle)) {
+		contentList.push(new Content(ContentType.event, event));
+	}
+
+	// push anniversary entries into our new content list
+	for(const anniversary of await getOnThisDayAnniversaries(onThisDayArticle)) {
+		contentList.push(new Content(ContentType.anniversary, anniversary));
 	}
+
+	log(LogLevel.DEBUG, 'Article ID:', onThisDayArticle.id);
+	log(LogLevel.TRACE, 'Content List for this article:', contentList);
+	
+	const article = new Article(onThisDayArticle.id, onThisDayArticle.link, contentList);
+	assignContentIds(article);
+
+	log(LogLevel.TRACE, 'Returning article object:', article);
+	return article;
 }
 
 /**
@@ -153,14 +249,14 @@ async function getOnThisDayHolidays(onThisDayArticle: OnThisDayArticle): Promise
 async function getOnThisDayFeaturedEvents(onThisDayArticle: OnThisDayArticle): Promise<PicturedEvent[]> {
 	const eventNodes = parse(onThisDayArticle.contents).querySelectorAll('.mw-parser-output > ul > li');
 	// need to iterate over the event nodes to find the "featured" events
-	// they include the word "pictured" in the text
+	// they include the word "pictured" (or its localized equivalent) in the text
 	const featuredEventList = [];
 	for (const event of eventNodes) {
 		// in the future, we might want to skip the "pictured" events
 		// because they are considered a "featured event"
 		// and might be posted separately, including a picture
 		// for now, we just log that they are "pictured" events
-		if (!(event.toString().includes('pictured'))) {
+		if (!(event.toString().includes(LOCALE.picturedMarker))) {
 			// skip the non-"pictured" events
 			log(LogLevel.DEBUG, 'Skipping "regular" event:', event.toString());
 			continue;
@@ -212,7 +308,7 @@ async function getOnThisDayEvents(onThisDayArticle: OnThisDayArticle): Promise<s
 	log(LogLevel.DEBUG, `Found ${eventNodes.length} events, parsing...`);
 	const eventList = [];
 	for (const event of eventNodes) {
-		if (event.toString().includes('pictured')) {
+		if (event.toString().includes(LOCALE.picturedMarker)) {
 			// skip the "pictured" events
 			log(LogLevel.DEBUG, 'Skipping "pictured" event:', event.toString());
 			continue;
@@ -244,4 +340,225 @@ async function getOnThisDayAnniversaries(onThisDayArticle: OnThisDayArticle): Pr
 	return anniversaryList;
 }
 
-export { fetchOnThisDayArticle, getOnThisDayAnniversaries, getOnThisDayEvents, getOnThisDayHolidays, getOnThisDayTodayText };
\ No newline at end of file
+/**
+ * Fetches the Wikipedia On This Day article for a date from the
+ * structured Wikimedia REST "onthisday" feed
+ * @param {Date} date - The date to fetch the article for
+ * @returns {Promise<Article|null>} a Promise that resolves with an Article object or null
+ */
+async function fetchOnThisDayArticleFromRestApi(date: Date): Promise<Article|null> {
+	if (DEBUG_MODE) log(LogLevel.DEBUG, 'fetchOnThisDayArticleFromRestApi called');
+
+	try {
+		const todayUTC = new Date(getArticleIdForDate(date));
+		const month = String(todayUTC.getUTCMonth() + 1).padStart(2, '0');
+		const day = String(todayUTC.getUTCDate()).padStart(2, '0');
+		const feedUrl = WIKIPEDIA_MAIN_URL + REST_FEED_URL + month + '/' + day;
+
+		log(LogLevel.DEBUG, 'Fetching feed from:', feedUrl);
+		const res = await fetch(feedUrl);
+		if (!res.ok) throw new Error(`Unexpected response status ${res.status}`);
+		const feed = await res.json() as OnThisDayRestFeed;
+
+		const article = buildArticleFromRestFeed(feed, todayUTC, feedUrl);
+		log(LogLevel.TRACE, 'Returning article object:', article);
+		return article;
+	} catch (error) {
+		log(LogLevel.ERROR, 'Failed to fetch REST feed:', error);
+		return null;
+	}
+}
+
+/**
+ * Builds an Article object from the Wikimedia REST "onthisday" feed,
+ * using the same HTML structure as the Atom feed for the content values
+ * @param {OnThisDayRestFeed} feed - The parsed feed
+ * @param {Date} date - The date of the feed (UTC midnight)
+ * @param {string} url - The url the feed has been fetched from
+ * @returns {Article} the article object
+ */
+function buildArticleFromRestFeed(feed: OnThisDayRestFeed, date: Date, url: string): Article {
+	const contentList = new Array<Content>;
+	const getEntries = (type: string): OnThisDayRestEntry[] => {
+		if (!REST_FEED_TYPES.includes(type)) return [];
+		return (feed[type as keyof OnThisDayRestFeed] || []).slice(0, REST_FEED_MAX_ENTRIES_PER_TYPE);
+	};
+
+	// push today text into our new content list
+	const dateText = new Intl.DateTimeFormat(LOCALE.language, { month: 'long', day: 'numeric', timeZone: 'UTC' }).format(date);
+	const datePage = encodeURI(dateText.replace(/ /g, '_'));
+	contentList.push(new Content(ContentType.todayText, `<p><b><a href="/wiki/${datePage}">${escapeHTML(dateText)}</a></b></p>`, null, true));
+
+	// push holiday entries into our new content list
+	for (const holiday of getEntries('holidays')) {
+		contentList.push(new Content(ContentType.holiday, linkPagesInText(holiday.text, holiday.pages)));
+	}
+
+	// the first selected entry with a thumbnail becomes the featured event
+	const events = getEntries('selected').concat(getEntries('events'));
+	const featuredEvent = events.find(event => event.pages.some(page => page.thumbnail));
+	if (featuredEvent) {
+		const page = featuredEvent.pages.find(page => page.thumbnail);
+		const img: Picture = {
+			uri: page.thumbnail.source,
+			alt: page.description || page.titles?.normalized || page.title,
+			height: page.thumbnail.height,
+			width: page.thumbnail.width
+		};
+		contentList.push(new Content(ContentType.featuredEvent, `<li>${getYearLink(featuredEvent.year)} – ${linkPagesInText(featuredEvent.text, featuredEvent.pages)}</li>`, img));
+	}
+
+	// push event entries into our new content list
+	for (const event of events) {
+		if (event === featuredEvent) continue;
+		contentList.push(new Content(ContentType.event, `<li>${getYearLink(event.year)} – ${linkPagesInText(event.text, event.pages)}</li>`));
+	}
+
+	// push anniversary entries into our new content list
+	for (const birth of getEntries('births')) {
+		contentList.push(new Content(ContentType.anniversary, `<li>${linkPagesInText(birth.text, birth.pages)} (<abbr title="${LOCALE.bornTitle}">${LOCALE.bornAbbreviation}</abbr> ${getYearLink(birth.year)})</li>`));
+	}
+	for (const death of getEntries('deaths')) {
+		contentList.push(new Content(ContentType.anniversary, `<li>${linkPagesInText(death.text, death.pages)} (<abbr title="${LOCALE.diedTitle}">${LOCALE.diedAbbreviation}</abbr> ${getYearLink(death.year)})</li>`));
+	}
+
+	log(LogLevel.DEBUG, 'Article ID:', date.toISOString());
+	log(LogLevel.TRACE, 'Content List for this article:', contentList);
+	const article = new Article(date.toISOString(), url, contentList);
+	assignContentIds(article);
+	return article;
+}
+
+/**
+ * Creates the HTML link to the page of a year
+ * @param {number} year - The year (negative for years BC)
+ * @returns {string} the HTML link
+ */
+function getYearLink(year: number): string {
+	const yearText = year < 0 ? `${-year} ${LOCALE.bcSuffix}` : `${year}`;
+	return `<a href="/wiki/${encodeURI(yearText.replace(/ /g, '_'))}">${yearText}</a>`;
+}
+
+/**
+ * Escapes the characters of a plain text that have a special meaning in HTML
+ * @param {string} text - The plain text
+ * @returns {string} the escaped text
+ */
+function escapeHTML(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Turns the plain text of a REST feed entry into HTML, by linking
+ * the first occurrence of each referenced page's title in the text
+ * @param {string} text - The plain text of the entry
+ * @param {OnThisDayRestPage[]} pages - The pages referenced by the entry
+ * @returns {string} the text as HTML, including the links
+ */
+function linkPagesInText(text: string, pages: Array<OnThisDayRestPage>): string {
+	const matches: Array<{ start: number, end: number, href: string }> = [];
+	for (const page of pages) {
+		const title = page.titles?.normalized || page.title.replace(/_/g, ' ');
+		// links must not overlap, so look for the next occurrence if necessary
+		let start = text.indexOf(title);
+		while (start !== -1 && matches.some(m => start < m.end && start + title.length > m.start)) {
+			start = text.indexOf(title, start + 1);
+		}
+		if (start === -1) continue;
+		matches.push({ start: start, end: start + title.length, href: '/wiki/' + encodeURI(page.title) });
+	}
+	matches.sort((a, b) => a.start - b.start);
+
+	let html = '';
+	let cursor = 0;
+	for (const match of matches) {
+		html += escapeHTML(text.slice(cursor, match.start));
+		html += `<a href="${match.href}">${escapeHTML(text.slice(match.start, match.end))}</a>`;
+		cursor = match.end;
+	}
+	return html + escapeHTML(text.slice(cursor));
+}
+
+/**
+ * Determines the main linked article of a content, i.e. the bold link
+ * (which Wikipedia uses for the featured article of an entry) or
+ * the first link that does not point to a year
+ * @param {Content} content - The content object
+ * @returns {Link|null} the main linked article or null if there is none
+ */
+function getMainLinkedArticle(content: Content): Link|null {
+	const root = parse(content.value);
+	const mainLink = root.querySelector('b a') || root.querySelectorAll('a').find(a => !YEAR_LINK_REGEX.test(a.getAttribute('href') || ''));
+	if (!mainLink || !mainLink.getAttribute('href')) {
+		log(LogLevel.DEBUG, 'No main linked article found for content:', content.value);
+		return null;
+	}
+	return {
+		text: mainLink.innerText,
+		url: WIKIPEDIA_MAIN_URL + mainLink.getAttribute('href')
+	};
+}
+
+/**
+ * Fetches the summary (title, description and thumbnail) of a linked Wikipedia article
+ * @param {Link} link - The link to the Wikipedia article
+ * @returns {Promise<ArticleSummary|null>} a Promise that resolves with the summary or null if it could not be fetched
+ */
+async function fetchArticleSummary(link: Link): Promise<ArticleSummary|null> {
+	try {
+		const title = decodeURIComponent(link.url.split('/wiki/')[1].split('#')[0]);
+		const summaryUrl = WIKIPEDIA_MAIN_URL + SUMMARY_API_URL + encodeURIComponent(title);
+		log(LogLevel.DEBUG, 'Fetching article summary from:', summaryUrl);
+		const res = await fetch(summaryUrl);
+		if (!res.ok) throw new Error(`Unexpected response status ${res.status}`);
+		const summary = await res.json();
+		let description: string = summary.extract || summary.description || '';
+		if (description.length > MAX_DESCRIPTION_LENGTH) description = description.substring(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd() + '…';
+		return {
+			url: link.url,
+			title: summary.title || link.text,
+			description: description,
+			thumbnailUri: summary.thumbnail ? summary.thumbnail.source : null
+		};
+	} catch (error) {
+		log(LogLevel.WARNING, 'Failed to fetch article summary for:', link.url, error);
+		return null;
+	}
+}
+
+/**
+ * Fetches the author and license of a picture from the imageinfo API of the wiki it has been uploaded to,
+ * which is Wikimedia Commons for most pictures
+ * @param {Picture} img - The picture
+ * @returns {Promise<ImageAttribution|null>} a Promise that resolves with the attribution or null if it could not be fetched
+ */
+async function fetchImageAttribution(img: Picture): Promise<ImageAttribution|null> {
+	try {
+		const match = img.uri.match(UPLOAD_URL_REGEX);
+		if (!match) throw new Error('Not an uploaded file');
+		// pictures that are not on Commons (i.e. non-free ones) have been uploaded to the Wikipedia itself
+		const wikiUrl = match[1] === 'commons' ? COMMONS_URL : WIKIPEDIA_MAIN_URL;
+		const imageInfoUrl = wikiUrl + IMAGEINFO_API_URL + encodeURIComponent(decodeURIComponent(match[2]));
+		log(LogLevel.DEBUG, 'Fetching image info from:', imageInfoUrl);
+		const res = await fetch(imageInfoUrl);
+		if (!res.ok) throw new Error(`Unexpected response status ${res.status}`);
+		const json = await res.json() as ImageInfoResponse;
+		const page = json.query && json.query.pages ? json.query.pages[0] : null;
+		const imageInfo = page && page.imageinfo ? page.imageinfo[0] : null;
+		if (!imageInfo) throw new Error('No image info found');
+		const metadata = imageInfo.extmetadata || {};
+		// the author is given as HTML, e.g. a link to the user page
+		const getText = (field: string): string => metadata[field] ? parse(String(metadata[field].value)).text.replace(/\s+/g, ' ').trim() : '';
+		return {
+			filePage: imageInfo.descriptionurl,
+			author: getText('Artist') || getText('Credit') || page.title.replace(/^[^:]+:/, ''),
+			license: getText('LicenseShortName'),
+			licenseUrl: getText('LicenseUrl') || null
+		};
+	} catch (error) {
+		log(LogLevel.WARNING, 'Failed to fetch image attribution for:', img.uri, error);
+		return null;
+	}
+}
+
+export { fetchOnThisDayArticle, fetchOnThisDayArticleFromAtomFeed, fetchOnThisDayArticleFromRestApi, fetchSelectedAnniversariesPage, buildArticleFromOnThisDayArticle, buildArticleFromRestFeed, getMainLinkedArticle, fetchArticleSummary, fetchImageAttribution, getOnThisDayAnniversaries, getOnThisDayEvents, getOnThisDayHolidays, getOnThisDayTodayText };
\ No newline at end of file
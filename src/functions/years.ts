@@ -0,0 +1,149 @@
+import { parse } from 'node-html-parser';
+import { Content } from '../classes/classes';
+import { ContentType } from '../utils/enums';
+import { ContentYears, HistoricalYear } from '../utils/interfaces';
+import { LOCALE } from '../utils/locales';
+
+/**
+ * Escape a string, so it can be used within a regular expression
+ * @param {string} value - The string
+ * @returns {string}
+ */
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build an alternation of escaped strings, longest first, so e.g. BCE is preferred over BC
+ * @param {string[]} values - The strings
+ * @returns {string}
+ */
+function toAlternation(values: string[]): string {
+	return [...new Set(values)].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+}
+
+// eras and markers of approximate years, in English and the configured language
+const BC_ERAS = toAlternation(['BCE', 'BC', 'B.C.E.', 'B.C.', LOCALE.bcSuffix]);
+const AD_ERAS = toAlternation(['AD', 'A.D.', 'CE', 'C.E.', 'n. Chr.', 'apr. J.-C.']);
+const APPROXIMATE_PREFIXES = toAlternation(['c.', 'ca.', 'circa', LOCALE.approximatePrefix]);
+// e.g. 1796, c. 1300, 44 BC, AD 79, 79 CE
+const YEAR_PATTERN = `(${APPROXIMATE_PREFIXES})?\\s*(?:(?:${AD_ERAS})\\s*)?(\\d{1,4})(?:\\s*(${BC_ERAS}|${AD_ERAS})(?![\\p{L}]))?`;
+const YEAR_REGEX = new RegExp(`^\\s*${YEAR_PATTERN}`, 'iu');
+const DASH = '\\s*[–—-]\\s*';
+const BORN = escapeRegExp(LOCALE.bornAbbreviation);
+const DIED = escapeRegExp(LOCALE.diedAbbreviation);
+
+/**
+ * Convert the groups of a YEAR_PATTERN match into a year
+ * @param {string|undefined} approximate - The approximate prefix
+ * @param {string} digits - The digits of the year
+ * @param {string|undefined} era - The era suffix
+ * @returns {HistoricalYear|null} the year, or null for the (non-existent) year zero
+ */
+function toHistoricalYear(approximate: string|undefined, digits: string, era: string|undefined): HistoricalYear|null {
+	const year = Number(digits);
+	if (year === 0) return null;
+	const isBC = !!era && new RegExp(`^(${BC_ERAS})$`, 'i').test(era);
+	return { year: isBC ? -year : year, approximate: !!approximate };
+}
+
+/**
+ * Parse the year at the beginning of a text, e.g. "c. 44 BC – Julius Caesar ..."
+ * @param {string} text - The text
+ * @returns {HistoricalYear|null} the year, or null if the text does not start with a year
+ */
+function parseYear(text: string): HistoricalYear|null {
+	const match = text.match(YEAR_REGEX);
+	return match ? toHistoricalYear(match[1], match[2], match[3]) : null;
+}
+
+/**
+ * Get the years of a content: the leading year of events, and the year(s) in parentheses at the end
+ * of anniversaries, e.g. (b. 1796), (d. 44 BC) or (1821–1881). Anniversaries commemorate the birth
+ * if it is marked as such, otherwise the death
+ * @param {Content} content - The content
+ * @returns {ContentYears}
+ */
+function getContentYears(content: Content): ContentYears {
+	const years: ContentYears = { year: null, birth: null, death: null };
+	const text = parse(content.value).text.replace(/\s+/g, ' ').trim();
+
+	switch (content.type) {
+		case ContentType.event:
+		case ContentType.featuredEvent: {
+			const match = text.match(new RegExp(`^\\s*${YEAR_PATTERN}${DASH}`, 'iu'));
+			if (match) years.year = toHistoricalYear(match[1], match[2], match[3]);
+			break;
+		}
+		case ContentType.anniversary: {
+			// entries might contain other parentheses, so only the last one counts
+			const parentheses = text.match(/\(([^()]*)\)\s*\.?$/);
+			if (!parentheses) break;
+			const inner = parentheses[1].trim();
+			const range = inner.match(new RegExp(`^(?:${BORN}\\s*)?${YEAR_PATTERN}${DASH}(?:${DIED}\\s*)?${YEAR_PATTERN}$`, 'iu'));
+			if (range) {
+				years.birth = toHistoricalYear(range[1], range[2], range[3]);
+				years.death = toHistoricalYear(range[4], range[5], range[6]);
+				// e.g. 100–44 BC: the era of the second year applies to the first one as well
+				if (years.birth && years.death && years.death.year < 0 && !range[3]) years.birth.year = -years.birth.year;
+				years.year = years.death;
+				break;
+			}
+			const single = inner.match(new RegExp(`^(${BORN}|${DIED})\\s*${YEAR_PATTERN}$`, 'iu'));
+			if (single) {
+				const year = toHistoricalYear(single[2], single[3], single[4]);
+				if (single[1].toLowerCase() === LOCALE.bornAbbreviation.toLowerCase()) {
+					years.birth = year;
+				} else {
+					years.death = year;
+				}
+				years.year = year;
+			}
+			break;
+		}
+	}
+	return years;
+}
+
+/**
+ * Get the number of years between two years. As there is no year zero, 1 BC to AD 1 is one year
+ * @param {number} from - The earlier year, negative for years BC
+ * @param {number} to - The later year, negative for years BC
+ * @returns {number}
+ */
+function getYearsBetween(from: number, to: number): number {
+	return to - from - (from < 0 && to > 0 ? 1 : 0);
+}
+
+/**
+ * Get how many years ago the year of a content was, e.g. 2069 for 44 BC in 2026
+ * @param {Content} content - The content
+ * @param {number} referenceYear - The year to count from, usually the year of the article
+ * @returns {number|null} the number of years, or null if the content does not refer to a year
+ */
+function getYearsAgo(content: Content, referenceYear: number): number|null {
+	const { year } = getContentYears(content);
+	return year ? getYearsBetween(year.year, referenceYear) : null;
+}
+
+/**
+ * Get the age at death of an anniversary, if both the year of birth and death are given
+ * @param {Content} content - The content
+ * @returns {number|null} the age (which might be one year off, as the exact dates are unknown), or null
+ */
+function getAgeAtDeath(content: Content): number|null {
+	const { birth, death } = getContentYears(content);
+	return birth && death ? getYearsBetween(birth.year, death.year) : null;
+}
+
+/**
+ * Format a year in the configured language, e.g. c. 44 BC
+ * @param {HistoricalYear} year - The year
+ * @returns {string}
+ */
+function formatYear(year: HistoricalYear): string {
+	const text = year.year < 0 ? `${-year.year} ${LOCALE.bcSuffix}` : `${year.year}`;
+	return year.approximate ? `${LOCALE.approximatePrefix} ${text}` : text;
+}
+
+export { parseYear, getContentYears, getYearsBetween, getYearsAgo, getAgeAtDeath, formatYear };
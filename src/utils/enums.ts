@@ -15,4 +15,56 @@ enum LogLevel {
 	CRITICAL = 'CRITICAL'
 }
 
-export { ContentType, LogLevel };
\ No newline at end of file
+enum OutboxStatus {
+	draft = 'draft',
+	approved = 'approved',
+	rejected = 'rejected',
+	pending = 'pending',
+	sent = 'sent',
+	failed = 'failed',
+	superseded = 'superseded'
+}
+
+enum ContentSourceType {
+	atom = 'atom',
+	rest = 'rest'
+}
+
+enum StorageBackendType {
+	json = 'json',
+	sqlite = 'sqlite'
+}
+
+enum ContentChangeType {
+	added = 'added',
+	retired = 'retired',
+	updated = 'updated'
+}
+
+enum ScheduleMode {
+	cron = 'cron',
+	planner = 'planner'
+}
+
+enum OrderingStrategy {
+	feed = 'feed',
+	interleaved = 'interleaved',
+	chronological = 'chronological',
+	random = 'random',
+	weighted = 'weighted'
+}
+
+enum ImageAttributionMode {
+	alt = 'alt',
+	reply = 'reply',
+	off = 'off'
+}
+
+enum RuleAction {
+	skip = 'skip',
+	requireApproval = 'requireApproval',
+	contentWarning = 'contentWarning',
+	priority = 'priority'
+}
+
+export { ContentType, LogLevel, OutboxStatus, ContentSourceType, StorageBackendType, ContentChangeType, ScheduleMode, OrderingStrategy, RuleAction, ImageAttributionMode };
\ No newline at end of file
@@ -1,14 +1,41 @@
-import { Article, BlueskyPost } from "../classes/classes";
+import { Article, Content, PersistedPost, OutboxEntry } from "../classes/classes";
+import { ContentChangeType, ContentSourceType, ContentType, OrderingStrategy, RuleAction, StorageBackendType } from "./enums";
 
 /**
  * An interface for a link object
  * @interface Link
  * @property {string} text - The text of the link
  * @property {string} url - The url of the link
+ * @property {number} [start] - The position of the link text within the raw text (UTF-16 index), if known
+ * @property {number} [end] - The position right after the link text within the raw text (UTF-16 index), if known
  */
 interface Link {
 	text: string,
-	url: string
+	url: string,
+	start?: number,
+	end?: number
+}
+
+/**
+ * An interface for a single chunk of a thread
+ * @interface ThreadChunk
+ * @property {string} text - The raw text of the chunk
+ * @property {Link[]} links - The links that are located within the chunk
+ */
+interface ThreadChunk {
+	text: string,
+	links: Array<Link>
+}
+
+/**
+ * An interface for a reference to a post on Bluesky
+ * @interface PostRef
+ * @property {string} uri - The AT URI of the post
+ * @property {string} cid - The CID of the post
+ */
+interface PostRef {
+	uri: string,
+	cid: string
 }
 
 /**
@@ -26,6 +53,36 @@ interface Picture {
 	width: number
 }
 
+/**
+ * An interface for the author and license of a picture, as given on its file page
+ * @interface ImageAttribution
+ * @property {string} filePage - The url of the file page
+ * @property {string} author - The author of the picture
+ * @property {string} license - The short name of the license, e.g. CC BY-SA 4.0
+ * @property {string|null} licenseUrl - The url of the license, if there is one
+ */
+interface ImageAttribution {
+	filePage: string,
+	author: string,
+	license: string,
+	licenseUrl: string|null
+}
+
+/**
+ * An interface for the summary of a linked Wikipedia article
+ * @interface ArticleSummary
+ * @property {string} url - The url of the article
+ * @property {string} title - The title of the article
+ * @property {string} description - A short description or extract of the article
+ * @property {string|null} thumbnailUri - The URI of the article's thumbnail, if there is one
+ */
+interface ArticleSummary {
+	url: string,
+	title: string,
+	description: string,
+	thumbnailUri: string|null
+}
+
 /**
  * An interface for a pictured event object
  * @interface PicturedEvent
@@ -49,10 +106,19 @@ interface Articles {
 /**
  * An interface for a postings object
  * @interface Posts
- * @property {BlueskyPost[]} postings - The list of posts
+ * @property {PersistedPost[]} postings - The list of posts
  */
 interface Posts {
-	posts: Array<BlueskyPost>;
+	posts: Array<PersistedPost>;
+}
+
+/**
+ * An interface for an outbox object
+ * @interface Outbox
+ * @property {OutboxEntry[]} outbox - The list of outbox entries
+ */
+interface Outbox {
+	outbox: Array<OutboxEntry>;
 }
 
 interface OnThisDayArticle {
@@ -62,4 +128,329 @@ interface OnThisDayArticle {
 	link: string;
 }
 
-export { Link, Articles, Posts, OnThisDayArticle, PicturedEvent, Picture };
\ No newline at end of file
+/**
+ * An interface for the language specific parts of parsing and posting content
+ * @interface Locale
+ * @property {string} language - The language code of the Wikipedia, also used as the posts' langs tag
+ * @property {string} picturedMarker - The text that marks the pictured event
+ * @property {string} bornAbbreviation - The abbreviation used for "born" in anniversaries
+ * @property {string} diedAbbreviation - The abbreviation used for "died" in anniversaries
+ * @property {string} bornTitle - The title attribute of the "born" abbreviation
+ * @property {string} diedTitle - The title attribute of the "died" abbreviation
+ * @property {string} bcSuffix - The suffix of years before christ
+ * @property {string} approximatePrefix - The prefix of approximate years, e.g. c. 1300
+ * @property {string} selectedAnniversariesPage - The page holding the "On this day" content of a date, <<MONTH>> and <<DAY>> are replaced by the bot
+ * @property {object} hashtags - The hashtags used to prefix posts, <<YEARS>> is replaced by the bot
+ * @property {object} phrases - The phrases used within posts, <<YEARSAGO>>, <<YEARS>>, <<AUTHOR>> and <<LICENSE>> are replaced by the bot
+ */
+interface Locale {
+	language: string;
+	picturedMarker: string;
+	bornAbbreviation: string;
+	diedAbbreviation: string;
+	bornTitle: string;
+	diedTitle: string;
+	bcSuffix: string;
+	approximatePrefix: string;
+	selectedAnniversariesPage: string;
+	hashtags: {
+		onThisDay: string;
+		anniversary: string;
+		picOfTheDay: string;
+		milestone: string;
+	};
+	phrases: {
+		born: string;
+		died: string;
+		yearsAgo: string;
+		ageAtDeath: string;
+		eventIn: string;
+		holidayObserved: string;
+		imageCredit: string;
+	};
+}
+
+/**
+ * An interface for a source of "On this day" content
+ * @interface ContentSource
+ * @property {ContentSourceType} type - The type of the content source
+ * @property {Function} fetchArticle - Fetches the article of a date, including its content list
+ */
+interface ContentSource {
+	type: ContentSourceType;
+	fetchArticle: (date: Date) => Promise<Article|null>;
+}
+
+/**
+ * An interface for a strategy that determines the order in which the contents of an article are posted
+ * @interface ContentOrdering
+ * @property {OrderingStrategy} type - The type of the ordering strategy
+ * @property {Function} orderContents - Returns the contents of an article in the order they should be posted
+ */
+interface ContentOrdering {
+	type: OrderingStrategy;
+	orderContents: (contents: Content[], article: Article) => Content[];
+}
+
+/**
+ * An interface for a storage backend that persists articles, their contents and posts.
+ * The outbox, the posting plan, the session and the changelog are always kept in JSON files
+ * @interface StorageBackend
+ * @property {StorageBackendType} type - The type of the storage backend
+ * @property {Function} loadArticles - Loads all articles
+ * @property {Function} loadArticle - Loads a single article by its id (or null if it does not exist)
+ * @property {Function} saveArticle - Saves an article including its contents, unless it exists already
+ * @property {Function} updateArticle - Overwrites an existing article including its contents
+ * @property {Function} markContentAsPosted - Marks the content of an article as posted
+ * @property {Function} loadPosts - Loads all posts
+ * @property {Function} savePost - Saves a posted post
+ */
+interface StorageBackend {
+	type: StorageBackendType;
+	loadArticles: () => Promise<Article[]>;
+	loadArticle: (id: string) => Promise<Article|null>;
+	saveArticle: (article: Article) => Promise<void>;
+	updateArticle: (article: Article) => Promise<void>;
+	markContentAsPosted: (article: Article, content: Content) => Promise<void>;
+	loadPosts: () => Promise<PersistedPost[]>;
+	savePost: (post: PersistedPost) => Promise<void>;
+}
+
+/**
+ * An interface for an entry of the changelog, which records changes of the feed
+ * that have been applied to a stored article
+ * @interface ContentChange
+ * @property {string} changedAt - The date the change has been applied
+ * @property {ContentChangeType} change - The kind of change
+ * @property {string} articleId - The id of the article
+ * @property {string} contentId - The id of the changed content
+ * @property {ContentType} contentType - The type of the changed content
+ * @property {string|null} oldValue - The value before the change (null if the content has been added)
+ * @property {string|null} newValue - The value after the change (null if the content has been retired)
+ */
+interface ContentChange {
+	changedAt: string;
+	change: ContentChangeType;
+	articleId: string;
+	contentId: string;
+	contentType: ContentType;
+	oldValue: string|null;
+	newValue: string|null;
+}
+
+/**
+ * An interface for a slot of the posting plan
+ * @interface PlanSlot
+ * @property {string} contentId - The id of the content planned for this slot
+ * @property {string} scheduledAt - The date the slot is scheduled at
+ * @property {boolean} done - Whether a post has been made for this slot
+ */
+interface PlanSlot {
+	contentId: string;
+	scheduledAt: string;
+	done: boolean;
+}
+
+/**
+ * An interface for the posting plan of a day
+ * @interface PostingPlan
+ * @property {string} articleId - The id of the article the plan has been built for
+ * @property {string} createdAt - The date the plan has been built
+ * @property {PlanSlot[]} slots - The slots of the plan, in chronological order
+ */
+interface PostingPlan {
+	articleId: string;
+	createdAt: string;
+	slots: PlanSlot[];
+}
+
+/**
+ * An interface for a rule of the rules file. All conditions that are set need to match
+ * @interface FilterRule
+ * @property {string} [name] - The name of the rule, recorded as the reason of skipped contents
+ * @property {ContentType|ContentType[]} [type] - The content type(s) the rule applies to
+ * @property {string} [text] - Plain text that needs to be part of the content (case-insensitive)
+ * @property {string} [title] - The title of a Wikipedia article that needs to be linked by the content (case-insensitive)
+ * @property {string} [regex] - Regular expression that needs to match the plain text of the content (case-insensitive)
+ * @property {RuleAction} action - What to do with matching contents
+ * @property {string} [label] - The self-label of the content warning (contentWarning only, default is graphic-media)
+ * @property {number} [priority] - The priority of matching contents (priority only)
+ */
+interface FilterRule {
+	name?: string;
+	type?: ContentType|ContentType[];
+	text?: string;
+	title?: string;
+	regex?: string;
+	action: RuleAction;
+	label?: string;
+	priority?: number;
+}
+
+/**
+ * An interface for the flags the rules have set on a content
+ * @interface ContentFlags
+ * @property {string} [skipReason] - Why the content will not be posted
+ * @property {boolean} [requiresApproval] - Whether the content needs to be approved before it is posted
+ * @property {string} [contentWarning] - The self-label the posts of the content are labeled with
+ * @property {number} [priority] - The priority of the content, higher priorities are posted first
+ * @property {number} [milestone] - The number of years, if the content falls on a milestone anniversary
+ */
+interface ContentFlags {
+	skipReason?: string;
+	requiresApproval?: boolean;
+	contentWarning?: string;
+	priority?: number;
+	milestone?: number;
+}
+
+/**
+ * An interface for an extra content of the overrides file
+ * @interface ExtraContent
+ * @property {ContentType} type - The type of the content
+ * @property {string} value - The HTML of the content, with links relative to Wikipedia (e.g. /wiki/1796)
+ * @property {Picture} [img] - The image of the content
+ */
+interface ExtraContent {
+	type: ContentType;
+	value: string;
+	img?: Picture;
+}
+
+/**
+ * An interface for the editorial overrides of a date (MM-DD)
+ * @interface DateOverride
+ * @property {string} [intro] - Replaces the today text the posts of the day are prefixed with
+ * @property {Record<string, string>} [replace] - Replaces the HTML of contents, by content id
+ * @property {string[]} [suppress] - The ids of contents that will not be posted
+ * @property {ExtraContent[]} [add] - Extra contents to be added to the article
+ */
+interface DateOverride {
+	intro?: string;
+	replace?: Record<string, string>;
+	suppress?: string[];
+	add?: ExtraContent[];
+}
+
+/**
+ * An interface for a year as it is given in a content, e.g. c. 44 BC
+ * @interface HistoricalYear
+ * @property {number} year - The year, negative for years BC (there is no year zero)
+ * @property {boolean} approximate - Whether the year is approximate
+ */
+interface HistoricalYear {
+	year: number;
+	approximate: boolean;
+}
+
+/**
+ * An interface for the years of a content
+ * @interface ContentYears
+ * @property {HistoricalYear|null} year - The year the content commemorates
+ * @property {HistoricalYear|null} birth - The year of birth (anniversaries only)
+ * @property {HistoricalYear|null} death - The year of death (anniversaries only)
+ */
+interface ContentYears {
+	year: HistoricalYear|null;
+	birth: HistoricalYear|null;
+	death: HistoricalYear|null;
+}
+
+/**
+ * An interface for the post templates, by content type. Every type can have
+ * several variants, which are rotated from day to day
+ * @interface PostTemplates
+ * @property {string[]} [holiday] - The templates of holidays
+ * @property {string[]} [featuredEvent] - The templates of featured events
+ * @property {string[]} [event] - The templates of events
+ * @property {string[]} [anniversary] - The templates of anniversaries
+ */
+interface PostTemplates {
+	holiday?: string[];
+	featuredEvent?: string[];
+	event?: string[];
+	anniversary?: string[];
+}
+
+/**
+ * An interface for the content of the lock file
+ * @interface RunLock
+ * @property {number} pid - The id of the process holding the lock
+ * @property {string} hostname - The host the process is running on
+ * @property {string} acquiredAt - The date the lock has been acquired
+ */
+interface RunLock {
+	pid: number;
+	hostname: string;
+	acquiredAt: string;
+}
+
+/**
+ * An interface for a page referenced by an entry of the Wikimedia REST "onthisday" feed
+ * @interface OnThisDayRestPage
+ * @property {string} title - The title of the page, with underscores
+ * @property {object} titles - The normalized and display titles of the page
+ * @property {string} description - The short description of the page
+ * @property {object} thumbnail - The thumbnail of the page
+ */
+interface OnThisDayRestPage {
+	title: string;
+	titles?: {
+		normalized: string;
+		display: string;
+	};
+	description?: string;
+	thumbnail?: {
+		source: string;
+		width: number;
+		height: number;
+	};
+}
+
+/**
+ * An interface for an entry of the Wikimedia REST "onthisday" feed
+ * @interface OnThisDayRestEntry
+ * @property {string} text - The text of the entry
+ * @property {number} year - The year of the entry (negative for years BC), not present for holidays
+ * @property {OnThisDayRestPage[]} pages - The pages referenced by the entry
+ */
+interface OnThisDayRestEntry {
+	text: string;
+	year?: number;
+	pages: Array<OnThisDayRestPage>;
+}
+
+/**
+ * An interface for the Wikimedia REST "onthisday" feed
+ * @interface OnThisDayRestFeed
+ */
+interface OnThisDayRestFeed {
+	selected?: Array<OnThisDayRestEntry>;
+	births?: Array<OnThisDayRestEntry>;
+	deaths?: Array<OnThisDayRestEntry>;
+	holidays?: Array<OnThisDayRestEntry>;
+	events?: Array<OnThisDayRestEntry>;
+}
+
+/**
+ * An interface for the response of the MediaWiki imageinfo API (formatversion=2)
+ * @interface ImageInfoResponse
+ * @property {object} query - The queried file pages, each with its url and extended metadata (e.g. Artist, LicenseShortName)
+ */
+interface ImageInfoResponse {
+	query?: {
+		pages: Array<{
+			title: string;
+			missing?: boolean;
+			imageinfo?: Array<{
+				descriptionurl: string;
+				extmetadata?: Record<string, {
+					value: string|number;
+					source?: string;
+				}>;
+			}>;
+		}>;
+	};
+}
+
+export { Link, Articles, Posts, Outbox, OnThisDayArticle, PicturedEvent, Picture, ThreadChunk, PostRef, ArticleSummary, ImageAttribution, ContentSource, OnThisDayRestPage, OnThisDayRestEntry, OnThisDayRestFeed, ImageInfoResponse, Locale, StorageBackend, RunLock, ContentChange, PlanSlot, PostingPlan, ContentOrdering, FilterRule, ContentFlags, ExtraContent, DateOverride, PostTemplates, HistoricalYear, ContentYears };
\ No newline at end of file
@@ -0,0 +1,64 @@
+import dotenv from 'dotenv';
+import { Locale } from './interfaces';
+dotenv.config();
+
+const WIKIPEDIA_MAIN_URL = process.env.WIKIPEDIA_MAIN_URL || 'https://en.wikipedia.org';
+
+/**
+ * English Wikipedia
+ * @type {Locale}
+ */
+const en: Locale = {
+	language: 'en',
+	picturedMarker: 'pictured',
+	bornAbbreviation: 'b.',
+	diedAbbreviation: 'd.',
+	bornTitle: 'born',
+	diedTitle: 'died',
+	bcSuffix: 'BC',
+	approximatePrefix: 'c.',
+	selectedAnniversariesPage: 'Wikipedia:Selected anniversaries/<<MONTH>> <<DAY>>',
+	hashtags: {
+		onThisDay: '#OnThisDay',
+		anniversary: '#Anniversary',
+		picOfTheDay: '#PicOfTheDay',
+		milestone: '#<<YEARS>>YearsAgo'
+	},
+	phrases: {
+		born: 'was born <<YEARSAGO>>',
+		died: 'died <<YEARSAGO>>',
+		yearsAgo: '<<YEARS>> years ago',
+		ageAtDeath: 'aged <<YEARS>>',
+		eventIn: 'in',
+		holidayObserved: 'the following holiday is observed',
+		imageCredit: 'Picture: <<AUTHOR>>, <<LICENSE>>, via Wikimedia Commons'
+	}
+};
+
+// the parser only knows the markup of the English Wikipedia so far - further languages
+// need to be checked against recorded pages of their Wikipedia before they are added here
+const locales: Array<Locale> = [en];
+
+/**
+ * Determine the locale to be used, either from WIKIPEDIA_LANGUAGE
+ * or from the language subdomain of WIKIPEDIA_MAIN_URL
+ * (e.g. https://de.wikipedia.org => de).
+ * Falls back to English if the language is not supported
+ * @returns {Locale} the locale
+ */
+function getLocale(): Locale {
+	let language = process.env.WIKIPEDIA_LANGUAGE;
+	if (!language) {
+		const match = WIKIPEDIA_MAIN_URL.match(/^https?:\/\/([a-z-]+)\.wikipedia\.org/);
+		language = match ? match[1] : en.language;
+	}
+	return locales.find(l => l.language === language) || en;
+}
+
+/**
+ * The locale selected for this instance of the bot
+ * @type {Locale}
+ */
+const LOCALE: Locale = getLocale();
+
+export { LOCALE, getLocale, locales };
@@ -0,0 +1,20 @@
+const storage = {
+	loadArticles: jest.fn(async () => []),
+	saveArticle: jest.fn()
+};
+
+jest.mock('../src/functions/storage', () => ({ ...jest.requireActual('../src/functions/storage'), storage }));
+jest.mock('../src/functions/bluesky', () => ({
+	...jest.requireActual('../src/functions/bluesky'),
+	flushOutbox: jest.fn(async () => ({ sent: 0, pending: 0 }))
+}));
+jest.mock('../src/functions/wikipedia', () => ({ ...jest.requireActual('../src/functions/wikipedia'), fetchOnThisDayArticle: jest.fn(async () => null) }));
+
+import { runBot } from '../src/app';
+
+describe('runBot', () => {
+	it('stops without posting if the article of today cannot be fetched', async () => {
+		expect(await runBot()).toBe(false);
+		expect(storage.saveArticle).not.toHaveBeenCalled();
+	});
+});
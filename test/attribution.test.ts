@@ -0,0 +1,62 @@
+import { UnicodeString } from '@atproto/api';
+import { BlueskyPost, Content } from '../src/classes/classes';
+import { ContentType } from '../src/utils/enums';
+import { ImageAttribution } from '../src/utils/interfaces';
+import { fetchImageAttribution } from '../src/functions/wikipedia';
+import { loadModules } from './helpers';
+
+const IMG_URI = 'https://upload.wikimedia.org/wikipedia/commons/thumb/9/98/Aldrin_Apollo_11_original.jpg/320px-Aldrin_Apollo_11_original.jpg';
+
+/**
+ * Load the Bluesky functions with the credit of pictures posted as a reply
+ * @returns {typeof import('../src/functions/bluesky')}
+ */
+function loadBluesky(): typeof import('../src/functions/bluesky') {
+	return loadModules({ IMAGE_ATTRIBUTION: 'reply' }, '../src/functions/bluesky');
+}
+
+describe('fetchImageAttribution', () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('reads the author and license from the extended metadata of the file', async () => {
+		jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+			query: { pages: [{ title: 'File:Aldrin Apollo 11 original.jpg', imageinfo: [{
+				descriptionurl: 'https://commons.wikimedia.org/wiki/File:Aldrin_Apollo_11_original.jpg',
+				extmetadata: {
+					Artist: { value: '<a href="https://en.wikipedia.org/wiki/Neil_Armstrong">Neil Armstrong</a>' },
+					LicenseShortName: { value: 'Public domain' }
+				}
+			}] }] }
+		})));
+		expect(await fetchImageAttribution({ uri: IMG_URI, alt: '', width: 320, height: 320 })).toEqual({
+			filePage: 'https://commons.wikimedia.org/wiki/File:Aldrin_Apollo_11_original.jpg',
+			author: 'Neil Armstrong',
+			license: 'Public domain',
+			licenseUrl: null
+		});
+	});
+
+	it('gives no attribution for missing files', async () => {
+		jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({ query: { pages: [{ title: 'File:Missing.jpg', missing: true }] } })));
+		expect(await fetchImageAttribution({ uri: IMG_URI, alt: '', width: 320, height: 320 })).toBeNull();
+	});
+});
+
+describe('appendImageCredit', () => {
+	it('shortens a long list of authors, so the credit fits into a single post', async () => {
+		const attribution: ImageAttribution = {
+			filePage: 'https://commons.wikimedia.org/wiki/File:Example.jpg',
+			author: Array.from({ length: 40 }, (_, index) => `Photographer ${index + 1}`).join(', '),
+			license: 'CC BY-SA 4.0',
+			licenseUrl: 'https://creativecommons.org/licenses/by-sa/4.0'
+		};
+		const thread = await loadBluesky().appendImageCredit([new BlueskyPost('Root', '')], attribution, new Content(ContentType.event, '<li>Event</li>'));
+		const credit = thread[1];
+		expect(new UnicodeString(credit.text).graphemeLength).toBeLessThanOrEqual(300);
+		expect(credit.text).toMatch(/^Picture: Photographer 1, Photographer 2, .*…, CC BY-SA 4\.0, via Wikimedia Commons$/);
+		const linkTexts = credit.facets.map(facet => new UnicodeString(credit.text).slice(facet.index.byteStart, facet.index.byteEnd));
+		expect(linkTexts).toEqual(['CC BY-SA 4.0', 'Wikimedia Commons']);
+	});
+});
@@ -0,0 +1,41 @@
+import { BlueskyPost, Content, OutboxEntry } from '../src/classes/classes';
+import { ContentType } from '../src/utils/enums';
+
+/**
+ * Load modules with a fresh module registry while the given environment variables are set, so the
+ * configuration the modules read on load takes effect. The variables are restored afterwards.
+ * Modules loaded by the same call share their registry (e.g. for instanceof checks)
+ * @param {Record<string, string>} env - The environment variables
+ * @param {string[]} modulePaths - The paths of the modules, relative to the test directory
+ * @returns {T} the exports of all modules
+ */
+function loadModules<T>(env: Record<string, string>, ...modulePaths: string[]): T {
+	const previousEnv = Object.fromEntries(Object.keys(env).map(name => [name, process.env[name]]));
+	let modules: T;
+	Object.assign(process.env, env);
+	try {
+		jest.isolateModules(() => {
+			// eslint-disable-next-line @typescript-eslint/no-require-imports
+			modules = Object.assign({}, ...modulePaths.map(modulePath => require(modulePath)));
+		});
+	} finally {
+		for (const [name, value] of Object.entries(previousEnv)) {
+			if (value === undefined) delete process.env[name];
+			else process.env[name] = value;
+		}
+	}
+	return modules;
+}
+
+/**
+ * Create an outbox entry with a thread of posts
+ * @param {number} length - The number of posts
+ * @param {Content} [content] - The content of the entry, an event by default
+ * @returns {OutboxEntry}
+ */
+function createOutboxEntry(length: number, content: Content = new Content(ContentType.event, '<li>Event</li>', null, false, 'event-id')): OutboxEntry {
+	const posts = Array.from({ length }, (_, index) => new BlueskyPost(`Post ${index + 1}`, new Date().toISOString()));
+	return new OutboxEntry('2026-07-20T00:00:00.000Z', content, posts);
+}
+
+export { loadModules, createOutboxEntry };
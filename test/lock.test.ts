@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadModules } from './helpers';
+
+let dbPath: string;
+
+/**
+ * Load the lock module with its lock file in a temporary DB_PATH. Every call
+ * returns a separate instance, like another process sharing the DB_PATH would
+ * @returns {typeof import('../src/functions/lock')}
+ */
+function loadLock(): typeof import('../src/functions/lock') {
+	return loadModules({ DB_PATH: dbPath }, '../src/functions/lock');
+}
+
+/**
+ * Get the content of a lock file left behind by a process that is no longer running
+ * @returns {string}
+ */
+function getStaleLock(): string {
+	return JSON.stringify({ pid: 999999999, hostname: os.hostname(), acquiredAt: new Date().toISOString() });
+}
+
+/**
+ * Write a lock file left behind by a process that is no longer running
+ * @returns {void}
+ */
+function writeStaleLock(): void {
+	fs.writeFileSync(path.join(dbPath, 'bot.lock'), getStaleLock());
+}
+
+describe('withRunLock', () => {
+	beforeEach(() => {
+		dbPath = fs.mkdtempSync(path.join(os.tmpdir(), 'otd-bot-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(dbPath, { recursive: true, force: true });
+	});
+
+	it('takes over a stale lock and releases it afterwards', async () => {
+		writeStaleLock();
+		const fn = jest.fn(async () => {});
+		expect(await loadLock().withRunLock(fn)).toBe(true);
+		expect(fn).toHaveBeenCalled();
+		expect(fs.readdirSync(dbPath)).toEqual([]);
+	});
+
+	it('lets only one of several runs take over the same stale lock', async () => {
+		writeStaleLock();
+		let running = 0;
+		let overlapped = false;
+		const fn = async (): Promise<void> => {
+			overlapped = overlapped || running > 0;
+			running++;
+			await new Promise(resolve => setTimeout(resolve, 50));
+			running--;
+		};
+		const results = await Promise.all([loadLock(), loadLock(), loadLock()].map(lock => lock.withRunLock(fn)));
+		expect(results.filter(ran => ran)).toHaveLength(1);
+		expect(overlapped).toBe(false);
+		expect(fs.readdirSync(dbPath)).toEqual([]);
+	});
+
+	it('does not remove a lock that has been taken over after it has been found stale', async () => {
+		const liveLock = JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() });
+		fs.writeFileSync(path.join(dbPath, 'bot.lock'), liveLock);
+		// the stale lock is read, but another process takes it over before it is removed
+		const readFile = jest.spyOn(fs.promises, 'readFile').mockResolvedValueOnce(getStaleLock());
+		const fn = jest.fn(async () => {});
+		try {
+			expect(await loadLock().withRunLock(fn)).toBe(false);
+		} finally {
+			readFile.mockRestore();
+		}
+		expect(fn).not.toHaveBeenCalled();
+		expect(fs.readdirSync(dbPath)).toEqual(['bot.lock']);
+		expect(fs.readFileSync(path.join(dbPath, 'bot.lock'), 'utf-8')).toBe(liveLock);
+	});
+});
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Article, Content, PersistedPost } from '../src/classes/classes';
+import { ContentType } from '../src/utils/enums';
+import { loadModules } from './helpers';
+
+const ARTICLE_ID = '2026-07-20T00:00:00.000Z';
+const VALUE = '<li><a href="/wiki/1969">1969</a> – Apollo 11 lands on the Moon.</li>';
+// posts stored before content ids were introduced refer to their content by a hash of its raw value
+const LEGACY_ID = createHash('sha256').update(ARTICLE_ID + '\n' + ContentType.event + '\n' + VALUE).digest('hex').substring(0, 16);
+
+let dbPath: string;
+
+/**
+ * Load the utils and storage modules with their files in a temporary DB_PATH
+ * @returns {typeof import('../src/functions/utils') & typeof import('../src/functions/storage')}
+ */
+function loadUtilsAndStorage(): typeof import('../src/functions/utils') & typeof import('../src/functions/storage') {
+	return loadModules({ DB_PATH: dbPath }, '../src/functions/utils', '../src/functions/storage');
+}
+
+/**
+ * Create a post as stored by older versions of the bot
+ * @returns {PersistedPost}
+ */
+function createLegacyPost(): PersistedPost {
+	return { text: 'Apollo 11 lands on the Moon.', createdAt: ARTICLE_ID, uri: 'at://post/1', cid: 'cid1', articleId: ARTICLE_ID, contentId: LEGACY_ID, contentType: ContentType.event, postedAt: ARTICLE_ID } as PersistedPost;
+}
+
+describe('content id migration', () => {
+	beforeEach(() => {
+		dbPath = fs.mkdtempSync(path.join(os.tmpdir(), 'otd-bot-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(dbPath, { recursive: true, force: true });
+	});
+
+	it('lets the posts in posts.json refer to the stable content id', async () => {
+		fs.writeFileSync(path.join(dbPath, 'articles.json'), JSON.stringify({ articles: [{ id: ARTICLE_ID, url: 'url', contentList: [{ type: ContentType.event, value: VALUE, img: null, alreadyPosted: true }] }] }));
+		fs.writeFileSync(path.join(dbPath, 'posts.json'), JSON.stringify({ posts: [createLegacyPost()] }));
+		const { migrateContentIds, loadArticle, loadPosts, loadPostsForContent } = loadUtilsAndStorage();
+
+		await migrateContentIds();
+		const contentId = (await loadArticle(ARTICLE_ID)).contentList[0].id;
+		expect(contentId).not.toBe(LEGACY_ID);
+		expect((await loadPosts()).map(p => p.contentId)).toEqual([contentId]);
+		expect(await loadPostsForContent(contentId)).toHaveLength(1);
+	});
+
+	it('lets the posts in SQLite refer to the stable content id', async () => {
+		const { sqliteStorage, migrateContentIdsInSQLite } = loadUtilsAndStorage();
+		// the JSON files have been migrated and imported, but the posts had been imported before
+		await sqliteStorage.saveArticle(new Article(ARTICLE_ID, 'url', [new Content(ContentType.event, VALUE, null, true)]));
+		await sqliteStorage.savePost(createLegacyPost());
+
+		await migrateContentIdsInSQLite();
+		const contentId = (await sqliteStorage.loadArticle(ARTICLE_ID)).contentList[0].id;
+		expect(contentId).not.toBe(LEGACY_ID);
+		expect((await sqliteStorage.loadPosts()).map(p => p.contentId)).toEqual([contentId]);
+	});
+});
@@ -0,0 +1,43 @@
+import { Article, Content } from '../src/classes/classes';
+import { ContentType } from '../src/utils/enums';
+import { applyMilestones } from '../src/functions/milestones';
+
+const ARTICLE_ID = '2026-07-20T00:00:00.000Z';
+
+/**
+ * Get the milestone flagged on an event of the article
+ * @param {string} value - The value of the event
+ * @returns {number|undefined} the number of years, or undefined if the event is no milestone
+ */
+function getMilestone(value: string): number|undefined {
+	const article = applyMilestones(new Article(ARTICLE_ID, 'url', [new Content(ContentType.event, value)]));
+	return article.contentList[0].flags?.milestone;
+}
+
+describe('applyMilestones', () => {
+	it.each([
+		['<li>1976 – Viking 1 lands on Mars.</li>', 50],
+		['<li>1926 – Something happened.</li>', 100],
+		['<li>1776 – Something happened.</li>', 250]
+	])('flags %s as a milestone', (value, years) => {
+		expect(getMilestone(value)).toBe(years);
+	});
+
+	it.each([
+		// multiples of the thresholds are no milestones of their own
+		'<li>1876 – Something happened.</li>',
+		'<li>1526 – Something happened.</li>',
+		'<li>2001 – Something happened.</li>',
+		// approximate years do not make for an exact anniversary
+		'<li>c. 1926 – Something happened.</li>',
+		'<li>Something happened in 1926.</li>'
+	])('does not flag %s', value => {
+		expect(getMilestone(value)).toBeUndefined();
+	});
+
+	it('counts across the era without a year zero', () => {
+		// 225 BC + 2026 - 1 = 2250 years, which is no milestone, but AD 1776 is
+		expect(getMilestone('<li>225 BC – Something happened.</li>')).toBeUndefined();
+		expect(getMilestone('<li>AD 1776 – Something happened.</li>')).toBe(250);
+	});
+});
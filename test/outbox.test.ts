@@ -0,0 +1,80 @@
+import { OutboxStatus } from '../src/utils/enums';
+import { createOutboxEntry, loadModules } from './helpers';
+
+const storage = {
+	loadArticle: jest.fn(),
+	markContentAsPosted: jest.fn(),
+	savePost: jest.fn()
+};
+const agentPost = jest.fn();
+
+jest.mock('../src/functions/storage', () => ({ storage }));
+jest.mock('../src/functions/utils', () => ({ ...jest.requireActual('../src/functions/utils'), saveOutboxEntryToJSON: jest.fn() }));
+jest.mock('@atproto/api', () => ({
+	...jest.requireActual('@atproto/api'),
+	AtpAgent: jest.fn().mockImplementation(() => ({ post: agentPost }))
+}));
+
+/**
+ * Load the Bluesky functions with an agent, i.e. outside of debug mode, along with
+ * the XRPCError class of the same module registry (so instanceof checks work)
+ * @returns {typeof import('../src/functions/bluesky') & typeof import('@atproto/xrpc')}
+ */
+function loadBluesky(): typeof import('../src/functions/bluesky') & typeof import('@atproto/xrpc') {
+	return loadModules({ DEBUG_MODE: 'false' }, '@atproto/xrpc', '../src/functions/bluesky');
+}
+
+describe('sendOutboxEntry', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		agentPost.mockImplementation(async () => ({ uri: `at://post/${agentPost.mock.calls.length}`, cid: `cid${agentPost.mock.calls.length}` }));
+	});
+
+	it('does not fail a delivered entry if the content cannot be marked as posted', async () => {
+		const { sendOutboxEntry } = loadBluesky();
+		storage.markContentAsPosted.mockRejectedValue(new Error('disk full'));
+		const entry = createOutboxEntry(2);
+
+		expect(await sendOutboxEntry(entry)).toBe(true);
+		expect(entry.status).toBe(OutboxStatus.sent);
+		expect(entry.attempts).toBe(1);
+		expect(agentPost).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not retry a delivered post if it cannot be recorded', async () => {
+		const { sendOutboxEntry } = loadBluesky();
+		storage.savePost.mockRejectedValue(new Error('disk full'));
+		const entry = createOutboxEntry(1);
+
+		expect(await sendOutboxEntry(entry)).toBe(true);
+		expect(agentPost).toHaveBeenCalledTimes(1);
+	});
+
+	it('keeps the delivered posts of an incomplete thread, marks its content as posted and resumes it', async () => {
+		const { sendOutboxEntry, resumeOutboxEntry, XRPCError } = loadBluesky();
+		agentPost.mockResolvedValueOnce({ uri: 'at://post/1', cid: 'cid1' }).mockRejectedValueOnce(new XRPCError(400, 'InvalidRequest', 'Invalid record'));
+		const entry = createOutboxEntry(3);
+
+		expect(await sendOutboxEntry(entry)).toBe(false);
+		expect(entry.status).toBe(OutboxStatus.failed);
+		expect(entry.refs).toEqual([{ uri: 'at://post/1', cid: 'cid1' }]);
+		expect(storage.markContentAsPosted).toHaveBeenCalledTimes(1);
+
+		await resumeOutboxEntry(entry);
+		expect(await sendOutboxEntry(entry)).toBe(true);
+		expect(entry.refs.map(ref => ref.uri)).toEqual(['at://post/1', 'at://post/3', 'at://post/4']);
+		// the replies continue the thread of the live root post
+		expect(agentPost.mock.calls[2][0].reply.root.uri).toBe('at://post/1');
+	});
+
+	it('records the posts of debug mode without references', async () => {
+		const { sendOutboxEntry } = await import('../src/functions/bluesky');
+		const entry = createOutboxEntry(2);
+
+		expect(await sendOutboxEntry(entry)).toBe(true);
+		expect(agentPost).not.toHaveBeenCalled();
+		expect(entry.refs).toEqual([null, null]);
+		expect(entry.posts[1].reply).toBeUndefined();
+		expect(storage.savePost).toHaveBeenCalledWith(expect.objectContaining({ uri: null, cid: null }));
+	});
+});
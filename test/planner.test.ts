@@ -0,0 +1,65 @@
+import schedule from 'node-schedule';
+import { Article, Content } from '../src/classes/classes';
+import { ContentType } from '../src/utils/enums';
+import { PostingPlan } from '../src/utils/interfaces';
+
+const ARTICLE_ID = '2026-07-20T00:00:00.000Z';
+let savedPlan: PostingPlan|null = null;
+let contents: Content[] = [];
+
+jest.mock('../src/functions/storage', () => ({
+	storage: {
+		loadArticle: jest.fn(async () => new Article(ARTICLE_ID, 'url', contents))
+	}
+}));
+jest.mock('../src/functions/utils', () => ({
+	...jest.requireActual('../src/functions/utils'),
+	loadPlanFromJSON: jest.fn(async () => savedPlan),
+	savePlanToJSON: jest.fn(async (plan: PostingPlan) => { savedPlan = JSON.parse(JSON.stringify(plan)); })
+}));
+
+import { startPlanner } from '../src/functions/planner';
+
+describe('planner', () => {
+	beforeEach(() => {
+		jest.useFakeTimers({ now: new Date('2026-07-20T10:00:00.000Z') });
+		savedPlan = null;
+		contents = [new Content(ContentType.event, '<li>Event</li>', null, false, 'event-id')];
+	});
+
+	afterEach(async () => {
+		await schedule.gracefulShutdown();
+		jest.useRealTimers();
+	});
+
+	it('tries a slot again until a post has been made for it', async () => {
+		const run = jest.fn<Promise<boolean>, [string]>().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+		await startPlanner(run);
+		expect(savedPlan.slots).toEqual([{ contentId: 'event-id', scheduledAt: '2026-07-20T10:01:00.000Z', done: false }]);
+
+		// e.g. another run has been in progress
+		await jest.advanceTimersByTimeAsync(60 * 1000);
+		expect(run).toHaveBeenCalledTimes(1);
+		expect(savedPlan.slots).toEqual([{ contentId: 'event-id', scheduledAt: '2026-07-20T10:16:00.000Z', done: false }]);
+
+		await jest.advanceTimersByTimeAsync(15 * 60 * 1000);
+		expect(run).toHaveBeenCalledTimes(2);
+		expect(run).toHaveBeenLastCalledWith('event-id');
+		expect(savedPlan.slots).toEqual([{ contentId: 'event-id', scheduledAt: '2026-07-20T10:16:00.000Z', done: true }]);
+	});
+
+	it('runs every slot for the content planned for it', async () => {
+		contents = [
+			new Content(ContentType.event, '<li>First event</li>', null, false, 'first-id'),
+			new Content(ContentType.event, '<li>Second event</li>', null, true, 'posted-id'),
+			new Content(ContentType.event, '<li>Third event</li>', null, false, 'third-id')
+		];
+		const run = jest.fn<Promise<boolean>, [string]>().mockResolvedValue(true);
+		await startPlanner(run);
+		expect(savedPlan.slots.map(s => s.contentId)).toEqual(['first-id', 'third-id']);
+
+		await jest.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+		expect(run.mock.calls).toEqual([['first-id'], ['third-id']]);
+		expect(savedPlan.slots.every(s => s.done)).toBe(true);
+	});
+});
@@ -0,0 +1,67 @@
+import { Article, Content, OutboxEntry } from '../src/classes/classes';
+import { ContentType, OutboxStatus } from '../src/utils/enums';
+import { createOutboxEntry } from './helpers';
+
+const ARTICLE_ID = '2026-07-20T00:00:00.000Z';
+let outbox: OutboxEntry[] = [];
+let article: Article;
+
+jest.mock('../src/functions/storage', () => ({
+	storage: {
+		loadArticles: jest.fn(async () => [article]),
+		updateArticle: jest.fn()
+	}
+}));
+jest.mock('../src/functions/utils', () => ({
+	...jest.requireActual('../src/functions/utils'),
+	loadOutbox: jest.fn(async () => outbox),
+	saveOutboxEntryToJSON: jest.fn(async (entry: OutboxEntry) => { if (!outbox.includes(entry)) outbox.push(entry); })
+}));
+
+import { requeueContent } from '../src/functions/queue';
+
+/**
+ * Create an outbox entry of the content with the given status
+ * @param {OutboxStatus} status - The status of the entry
+ * @param {number} [delivered=0] - The number of posts that have been delivered
+ * @returns {OutboxEntry}
+ */
+function createEntry(status: OutboxStatus, delivered: number = 0): OutboxEntry {
+	const entry = createOutboxEntry(2, article.contentList[0]);
+	entry.status = status;
+	entry.refs = Array.from({ length: delivered }, (_, index) => ({ uri: `at://post/${index}`, cid: `cid${index}` }));
+	return entry;
+}
+
+describe('requeueContent', () => {
+	beforeEach(() => {
+		article = new Article(ARTICLE_ID, 'url', [new Content(ContentType.event, '<li>Event</li>', null, true, 'event-id')]);
+		outbox = [];
+	});
+
+	it.each([OutboxStatus.sent, OutboxStatus.failed, OutboxStatus.rejected])('supersedes a %s outbox entry, so the content is posted anew', async status => {
+		outbox = [createEntry(status)];
+		expect(await requeueContent('event-id')).not.toBeNull();
+		expect(outbox[0].status).toBe(OutboxStatus.superseded);
+		expect(article.contentList[0].alreadyPosted).toBe(false);
+	});
+
+	it('renders a fresh draft of a content that needs approval', async () => {
+		article.contentList[0].flags = { requiresApproval: true };
+		outbox = [createEntry(OutboxStatus.rejected)];
+		await requeueContent('event-id');
+		expect(outbox.map(e => e.status)).toEqual([OutboxStatus.superseded, OutboxStatus.draft]);
+	});
+
+	it('resumes an incomplete thread instead of posting it again', async () => {
+		outbox = [createEntry(OutboxStatus.failed, 1)];
+		await requeueContent('event-id');
+		expect(outbox[0].status).toBe(OutboxStatus.pending);
+		expect(outbox[0].refs.length).toBe(1);
+		expect(article.contentList[0].alreadyPosted).toBe(true);
+	});
+
+	it('returns null for unknown contents', async () => {
+		expect(await requeueContent('unknown')).toBeNull();
+	});
+});
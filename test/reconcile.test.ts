@@ -0,0 +1,91 @@
+import { Article, Content, OutboxEntry } from '../src/classes/classes';
+import { diffArticle, reconcileArticle } from '../src/functions/reconcile';
+import { fetchOnThisDayArticle } from '../src/functions/wikipedia';
+import { assignContentIds } from '../src/functions/utils';
+import { renderThread } from '../src/functions/bluesky';
+import { ContentChangeType, ContentType, OutboxStatus } from '../src/utils/enums';
+import { ContentFlags } from '../src/utils/interfaces';
+
+const ARTICLE_ID = '2026-07-20T00:00:00.000Z';
+let outbox: OutboxEntry[] = [];
+
+jest.mock('../src/functions/storage', () => ({ storage: { updateArticle: jest.fn() } }));
+jest.mock('../src/functions/wikipedia', () => ({ ...jest.requireActual('../src/functions/wikipedia'), fetchOnThisDayArticle: jest.fn() }));
+jest.mock('../src/functions/utils', () => ({
+	...jest.requireActual('../src/functions/utils'),
+	appendToChangelog: jest.fn(),
+	loadOutbox: jest.fn(async () => outbox),
+	saveOutboxEntryToJSON: jest.fn(async (entry: OutboxEntry) => { if (!outbox.includes(entry)) outbox.push(entry); })
+}));
+
+/**
+ * Build an article the way the content sources do, i.e. with content ids derived from the text
+ * @param {string[]} events - The values of the events
+ * @param {ContentFlags} [flags=null] - The flags of the events
+ * @returns {Article}
+ */
+function buildArticle(events: string[], flags: ContentFlags = null): Article {
+	const article = new Article(ARTICLE_ID, 'url', events.map(value => new Content(ContentType.event, value, null, false, null, false, flags)));
+	assignContentIds(article);
+	return article;
+}
+
+describe('diffArticle', () => {
+	it('does not record any changes if nothing has changed', () => {
+		const stored = buildArticle(['<li>1969 – Apollo 11 lands on the Moon</li>']);
+		expect(diffArticle(stored, buildArticle(['<li>1969 – Apollo 11 lands on the Moon</li>']))).toEqual([]);
+	});
+
+	it('updates an edited entry once, keeping its id', () => {
+		const stored = buildArticle(['<li>1969 – Apollo 11 lands on the Moon</li>', '<li>1944 – The 20 July plot fails</li>']);
+		const originalId = stored.contentList[0].id;
+		const edited = ['<li>1969 – Apollo 11 lands on the Moon with two astronauts</li>', '<li>1944 – The 20 July plot fails</li>'];
+
+		const changes = diffArticle(stored, buildArticle(edited));
+		expect(changes.map(c => [c.change, c.contentId])).toEqual([[ContentChangeType.updated, originalId]]);
+		expect(stored.contentList[0].id).toBe(originalId);
+		expect(stored.contentList[0].value).toBe(edited[0]);
+
+		// the refetched entry has the id of its new text, but is still the same entry
+		expect(diffArticle(stored, buildArticle(edited))).toEqual([]);
+		expect(stored.contentList.map(c => c.retired)).toEqual([false, false]);
+	});
+
+	it('retires vanished entries and adds new ones', () => {
+		const stored = buildArticle(['<li>1969 – Apollo 11 lands on the Moon</li>']);
+		const changes = diffArticle(stored, buildArticle(['<li>1848 – The Seneca Falls Convention ends</li>']));
+		expect(changes.map(c => c.change).sort()).toEqual([ContentChangeType.added, ContentChangeType.retired]);
+		expect(diffArticle(stored, buildArticle(['<li>1848 – The Seneca Falls Convention ends</li>']))).toEqual([]);
+	});
+});
+
+describe('reconcileArticle', () => {
+	beforeEach(() => {
+		outbox = [];
+	});
+
+	it('supersedes the approved draft of an edited entry with a fresh draft', async () => {
+		const flags: ContentFlags = { requiresApproval: true };
+		const stored = buildArticle(['<li>1969 – Apollo 11 lands on the Moon</li>'], flags);
+		const approvedDraft = new OutboxEntry(ARTICLE_ID, stored.contentList[0], await renderThread(stored, stored.contentList[0]));
+		approvedDraft.status = OutboxStatus.approved;
+		outbox = [approvedDraft];
+		jest.mocked(fetchOnThisDayArticle).mockResolvedValue(buildArticle(['<li>1969 – Apollo 11 lands on the Moon with two astronauts</li>'], flags));
+
+		await reconcileArticle(stored, true);
+		expect(outbox.map(e => e.status)).toEqual([OutboxStatus.superseded, OutboxStatus.draft]);
+		expect(outbox[1].content.value).toBe('<li>1969 – Apollo 11 lands on the Moon with two astronauts</li>');
+		expect(outbox[1].content.id).toBe(stored.contentList[0].id);
+	});
+
+	it('supersedes the draft of a retired entry without a new draft', async () => {
+		const stored = buildArticle(['<li>1969 – Apollo 11 lands on the Moon</li>'], { requiresApproval: true });
+		const draft = new OutboxEntry(ARTICLE_ID, stored.contentList[0], await renderThread(stored, stored.contentList[0]));
+		draft.status = OutboxStatus.draft;
+		outbox = [draft];
+		jest.mocked(fetchOnThisDayArticle).mockResolvedValue(buildArticle(['<li>1848 – The Seneca Falls Convention ends</li>']));
+
+		await reconcileArticle(stored, true);
+		expect(outbox.map(e => e.status)).toEqual([OutboxStatus.superseded]);
+	});
+});
@@ -0,0 +1,72 @@
+import { UnicodeString } from '@atproto/api';
+import { stripHTMLElementsAndDecorateText } from '../src/functions/utils';
+import { preparePost } from '../src/functions/bluesky';
+
+/**
+ * Golden tests of the HTML renderer, covering the edge cases of issues #1 to #4
+ */
+describe('stripHTMLElementsAndDecorateText', () => {
+	it('drops the reference to the picture (issue #1)', async () => {
+		const { contentRaw, linkCollection } = await stripHTMLElementsAndDecorateText('<li><a href="/wiki/1969">1969</a> – <a href="/wiki/Apollo_11">Apollo 11</a> lands on the Moon <i>(pictured)</i>.</li>', 2026);
+		expect(contentRaw).toBe('📅 1969 – Apollo 11 lands on the Moon.');
+		expect(linkCollection.map(l => l.text)).toEqual(['1969', 'Apollo 11']);
+	});
+
+	it('collects the links in the order of the text (issue #2)', async () => {
+		const { contentRaw, linkCollection } = await stripHTMLElementsAndDecorateText('<li><a href="/wiki/1815">1815</a> – <a href="/wiki/Napoleon">Napoleon</a> is exiled to <a href="https://en.wikipedia.org/wiki/Saint_Helena">Saint Helena</a></li>', 2026);
+		expect(contentRaw).toBe('📅 1815 – Napoleon is exiled to Saint Helena');
+		expect(linkCollection).toEqual([
+			{ text: '1815', url: 'https://en.wikipedia.org/wiki/1815', start: 3, end: 7 },
+			{ text: 'Napoleon', url: 'https://en.wikipedia.org/wiki/Napoleon', start: 10, end: 18 },
+			{ text: 'Saint Helena', url: 'https://en.wikipedia.org/wiki/Saint_Helena', start: 32, end: 44 }
+		]);
+	});
+
+	it('phrases births with the years ago (issue #3)', async () => {
+		const { contentRaw, linkCollection } = await stripHTMLElementsAndDecorateText('<li><a href="/wiki/Franz_Liszt">Franz Liszt</a>, Hungarian composer (<abbr title="born">b.</abbr> 1811)</li>', 2026);
+		expect(contentRaw).toBe('📅 Franz Liszt, Hungarian composer was born 215 years ago (1811)');
+		expect(linkCollection).toEqual([{ text: 'Franz Liszt', url: 'https://en.wikipedia.org/wiki/Franz_Liszt', start: 3, end: 14 }]);
+	});
+
+	it('phrases deaths before Christ without a year zero (issue #3)', async () => {
+		const { contentRaw } = await stripHTMLElementsAndDecorateText('<li><a href="/wiki/Cicero">Cicero</a>, Roman statesman (<abbr title="died">d.</abbr> 43 BC)</li>', 2026);
+		expect(contentRaw).toBe('📅 Cicero, Roman statesman died 2068 years ago (43 BC)');
+	});
+
+	it('takes the years ago from the year after the abbreviation, even if an earlier "d." is part of the entry (issue #3)', async () => {
+		const { contentRaw } = await stripHTMLElementsAndDecorateText('<li><a href="/wiki/Jose_da_Silva">José d. Silva</a>, Brazilian footballer (<abbr title="died">d.</abbr> 1985)</li>', 2026);
+		expect(contentRaw).toBe('📅 José d. Silva, Brazilian footballer died 41 years ago (1985)');
+	});
+
+	it('renders superscript and subscript with unicode characters (issue #4)', async () => {
+		const { contentRaw } = await stripHTMLElementsAndDecorateText('<li>E = mc<sup>2</sup> and H<sub>2</sub>O</li>', 2026);
+		expect(contentRaw).toBe('📅 E = mc² and H₂O');
+	});
+
+	it('places the link of a repeated text at its own position', async () => {
+		const { contentRaw, linkCollection } = await stripHTMLElementsAndDecorateText('<li><a href="/wiki/1796">1796</a> – The <a href="/wiki/Treaty_of_1796">Treaty of 1796</a> is signed in 1796</li>', 2026);
+		expect(contentRaw).toBe('📅 1796 – The Treaty of 1796 is signed in 1796');
+		expect(linkCollection).toEqual([
+			{ text: '1796', url: 'https://en.wikipedia.org/wiki/1796', start: 3, end: 7 },
+			{ text: 'Treaty of 1796', url: 'https://en.wikipedia.org/wiki/Treaty_of_1796', start: 14, end: 28 }
+		]);
+	});
+
+	it('decodes entities and collapses whitespace', async () => {
+		const { contentRaw, linkCollection } = await stripHTMLElementsAndDecorateText('<li>Tom &amp; Jerry\n  &quot;quoted&quot; &ndash; caf&eacute; <a href="/wiki/A%26B">A&amp;B</a></li>', 2026);
+		expect(contentRaw).toBe('📅 Tom & Jerry "quoted" – café A&B');
+		expect(linkCollection).toEqual([{ text: 'A&B', url: 'https://en.wikipedia.org/wiki/A%26B', start: 31, end: 34 }]);
+	});
+});
+
+describe('preparePost', () => {
+	it('places link facets at the UTF-8 byte offsets behind multi-byte characters', async () => {
+		const { contentRaw, linkCollection } = await stripHTMLElementsAndDecorateText('<li>🇦🇹 Österreich – <a href="/wiki/Wien">Wien</a> und <a href="/wiki/Wien">Wien</a></li>', 2026);
+		expect(contentRaw).toBe('📅 🇦🇹 Österreich – Wien und Wien');
+		const post = await preparePost(contentRaw, linkCollection);
+		const text = new UnicodeString(post.text);
+		const facets = post.facets.filter(f => f.features.some(feature => feature.$type === 'app.bsky.richtext.facet#link'));
+		expect(facets.map(f => f.index)).toEqual([{ byteStart: 30, byteEnd: 34 }, { byteStart: 39, byteEnd: 43 }]);
+		expect(facets.map(f => text.slice(f.index.byteStart, f.index.byteEnd))).toEqual(['Wien', 'Wien']);
+	});
+});
@@ -0,0 +1,63 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { loadModules } from './helpers';
+
+const withRunLock = jest.fn();
+const skipContent = jest.fn();
+
+jest.mock('../src/functions/lock', () => ({ withRunLock }));
+jest.mock('../src/functions/queue', () => ({ skipContent, requeueContent: jest.fn() }));
+
+const { createAdminApp } = loadModules<typeof import('../src/functions/server')>({ ADMIN_API_TOKEN: 'secret' }, '../src/functions/server');
+
+/**
+ * Start the admin API on a random port and send a request to it
+ * @param {Function} run - Runs the bot once
+ * @param {string} path - The path of the request
+ * @returns {Promise<{ status: number, body: unknown }>} the status and the JSON body of the response
+ */
+async function post(run: () => Promise<boolean>, path: string): Promise<{ status: number, body: unknown }> {
+	const server: Server = await new Promise(resolve => {
+		const s = createAdminApp(run).listen(0, () => resolve(s));
+	});
+	try {
+		const res = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`, { method: 'POST', headers: { Authorization: 'Bearer secret' } });
+		return { status: res.status, body: await res.json() };
+	} finally {
+		await new Promise(resolve => server.close(resolve));
+	}
+}
+
+describe('admin API', () => {
+	beforeEach(() => {
+		withRunLock.mockReset();
+		skipContent.mockReset();
+	});
+
+	it('answers /run with a 500 if the run failed', async () => {
+		const response = await post(async () => { throw new Error('Bluesky is down'); }, '/run');
+		expect(response.status).toBe(500);
+		expect(response.body).toEqual({ ran: true, error: 'Run failed: Bluesky is down' });
+	});
+
+	it('answers /run with a 409 if a run is already in progress', async () => {
+		const response = await post(async () => false, '/run');
+		expect(response.status).toBe(409);
+	});
+
+	it('modifies contents while holding the run lock', async () => {
+		withRunLock.mockImplementation(async (fn: () => Promise<void>) => { await fn(); return true; });
+		skipContent.mockResolvedValue({ article: { id: 'article' }, content: { id: 'event-id' } });
+		const response = await post(async () => true, '/contents/event-id/skip');
+		expect(response.status).toBe(200);
+		expect(withRunLock).toHaveBeenCalledTimes(1);
+		expect(skipContent).toHaveBeenCalledWith('event-id');
+	});
+
+	it('does not modify contents while a run is in progress', async () => {
+		withRunLock.mockResolvedValue(false);
+		const response = await post(async () => true, '/contents/event-id/skip');
+		expect(response.status).toBe(409);
+		expect(skipContent).not.toHaveBeenCalled();
+	});
+});
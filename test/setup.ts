@@ -0,0 +1,5 @@
+// the tests never talk to Bluesky and only log critical errors
+process.env.DEBUG_MODE = 'true';
+process.env.LOG_LEVEL = 'CRITICAL';
+// the article day and posting window do not depend on the timezone of the machine
+process.env.TIMEZONE = 'UTC';
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Article, BlueskyPost, Content, PersistedPost } from '../src/classes/classes';
+import { ContentType } from '../src/utils/enums';
+import { loadModules } from './helpers';
+
+const ARTICLE_ID = '2026-07-20T00:00:00.000Z';
+
+let dbPath: string;
+
+/**
+ * Load the storage module with its files in a temporary DB_PATH
+ * @returns {typeof import('../src/functions/storage')}
+ */
+function loadStorage(): typeof import('../src/functions/storage') {
+	return loadModules({ DB_PATH: dbPath }, '../src/functions/storage');
+}
+
+/**
+ * Create an article with a content of every kind of state
+ * @returns {Article}
+ */
+function createArticle(): Article {
+	return new Article(ARTICLE_ID, 'url', [
+		new Content(ContentType.todayText, '<p>Today</p>', null, true),
+		new Content(ContentType.featuredEvent, '<li>Featured event</li>', { uri: 'https://example.org/image.jpg', alt: 'Image', height: 100, width: 200 }),
+		new Content(ContentType.event, '<li>Retired event</li>', null, false, null, true),
+		new Content(ContentType.anniversary, '<li>Anniversary</li>', null, false, null, false, { requiresApproval: true, priority: 2 })
+	]);
+}
+
+describe('SQLite storage', () => {
+	beforeEach(() => {
+		dbPath = fs.mkdtempSync(path.join(os.tmpdir(), 'otd-bot-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(dbPath, { recursive: true, force: true });
+	});
+
+	it('loads a saved article with all its contents', async () => {
+		const { sqliteStorage } = loadStorage();
+		const article = createArticle();
+
+		await sqliteStorage.saveArticle(article);
+		// an existing article is left untouched
+		await sqliteStorage.saveArticle(new Article(ARTICLE_ID, 'other-url', []));
+		expect(await sqliteStorage.loadArticle(ARTICLE_ID)).toEqual(article);
+		expect(await sqliteStorage.loadArticles()).toEqual([article]);
+		expect(await sqliteStorage.loadArticle('2026-07-21T00:00:00.000Z')).toBeNull();
+	});
+
+	it('updates an article and marks its contents as posted', async () => {
+		const { sqliteStorage } = loadStorage();
+		const article = createArticle();
+		await sqliteStorage.saveArticle(article);
+
+		article.contentList[2].retired = false;
+		article.contentList.push(new Content(ContentType.event, '<li>New event</li>'));
+		await sqliteStorage.updateArticle(article);
+		await sqliteStorage.markContentAsPosted(article, article.contentList[1]);
+		article.contentList[1].alreadyPosted = true;
+		expect(await sqliteStorage.loadArticle(ARTICLE_ID)).toEqual(article);
+
+		await expect(sqliteStorage.updateArticle(new Article('2026-07-21T00:00:00.000Z', 'url', []))).rejects.toThrow();
+		await expect(sqliteStorage.markContentAsPosted(article, new Content(ContentType.event, '<li>Unknown event</li>'))).rejects.toThrow();
+	});
+
+	it('loads the saved posts in the order they have been posted', async () => {
+		const { sqliteStorage } = loadStorage();
+		const post = new BlueskyPost('Post', ARTICLE_ID);
+		const posts = [
+			new PersistedPost(post, { uri: 'at://post/1', cid: 'cid1' }, ARTICLE_ID, 'content-id', ContentType.event, ARTICLE_ID),
+			// posts made in debug mode have no reference
+			new PersistedPost(post, null, ARTICLE_ID, 'content-id', ContentType.event, ARTICLE_ID)
+		];
+
+		for (const persistedPost of posts) await sqliteStorage.savePost(persistedPost);
+		expect(await sqliteStorage.loadPosts()).toEqual(JSON.parse(JSON.stringify(posts)));
+	});
+
+	it('adds the missing columns to a database of an older version of the bot', async () => {
+		const db = new Database(path.join(dbPath, 'wikipedia-otd-bsky-bot.sqlite'));
+		db.exec(`
+			CREATE TABLE articles (id TEXT PRIMARY KEY, url TEXT NOT NULL);
+			CREATE TABLE contents (article_id TEXT NOT NULL, position INTEGER NOT NULL, id TEXT NOT NULL, type TEXT NOT NULL, value TEXT NOT NULL, img TEXT, already_posted INTEGER NOT NULL DEFAULT 0, PRIMARY KEY (article_id, position));
+		`);
+		db.prepare('INSERT INTO articles (id, url) VALUES (?, ?)').run(ARTICLE_ID, 'url');
+		db.prepare('INSERT INTO contents (article_id, position, id, type, value, already_posted) VALUES (?, ?, ?, ?, ?, ?)').run(ARTICLE_ID, 0, 'event-id', ContentType.event, '<li>Event</li>', 1);
+		db.close();
+		const { sqliteStorage } = loadStorage();
+
+		expect(await sqliteStorage.loadArticle(ARTICLE_ID)).toEqual(new Article(ARTICLE_ID, 'url', [new Content(ContentType.event, '<li>Event</li>', null, true, 'event-id')]));
+		const article = createArticle();
+		await sqliteStorage.saveArticle(new Article('2026-07-21T00:00:00.000Z', 'url', article.contentList));
+		expect((await sqliteStorage.loadArticle('2026-07-21T00:00:00.000Z')).contentList[3].flags).toEqual({ requiresApproval: true, priority: 2 });
+	});
+
+	it('imports the JSON files once', async () => {
+		const article = createArticle();
+		const post = new PersistedPost(new BlueskyPost('Post', ARTICLE_ID), { uri: 'at://post/1', cid: 'cid1' }, ARTICLE_ID, 'content-id', ContentType.event, ARTICLE_ID);
+		fs.writeFileSync(path.join(dbPath, 'articles.json'), JSON.stringify({ articles: [article] }));
+		fs.writeFileSync(path.join(dbPath, 'posts.json'), JSON.stringify({ posts: [post] }));
+		const { sqliteStorage, importJSONIntoSQLite } = loadStorage();
+
+		await importJSONIntoSQLite();
+		await importJSONIntoSQLite();
+		expect((await sqliteStorage.loadArticles()).map(a => a.contentList.map(c => c.value))).toEqual([article.contentList.map(c => c.value)]);
+		expect(await sqliteStorage.loadPosts()).toEqual([JSON.parse(JSON.stringify(post))]);
+	});
+});
@@ -0,0 +1,83 @@
+import { loadModules } from './helpers';
+
+/**
+ * The configured TIMEZONE is read once, when the module is loaded,
+ * so the utils are loaded separately for every timezone
+ * @param {string} timezone - The IANA name of the timezone
+ * @returns {typeof import('../src/functions/utils')}
+ */
+function loadUtilsInTimezone(timezone: string): typeof import('../src/functions/utils') {
+	return loadModules({ TIMEZONE: timezone }, '../src/functions/utils');
+}
+
+describe('getArticleIdForDate', () => {
+	it('switches to the next article at midnight UTC in UTC', () => {
+		const { getArticleIdForDate } = loadUtilsInTimezone('UTC');
+		expect(getArticleIdForDate(new Date('2024-12-14T23:59:59.999Z'))).toBe('2024-12-14T00:00:00.000Z');
+		expect(getArticleIdForDate(new Date('2024-12-15T00:00:00.000Z'))).toBe('2024-12-15T00:00:00.000Z');
+	});
+
+	it('keeps the article of the local day across midnight UTC in a negative offset zone', () => {
+		const { getArticleIdForDate } = loadUtilsInTimezone('America/Los_Angeles');
+		expect(getArticleIdForDate(new Date('2024-12-14T23:59:59.999Z'))).toBe('2024-12-14T00:00:00.000Z');
+		expect(getArticleIdForDate(new Date('2024-12-15T00:00:00.000Z'))).toBe('2024-12-14T00:00:00.000Z');
+		// local midnight (PST, UTC-8)
+		expect(getArticleIdForDate(new Date('2024-12-15T07:59:59.999Z'))).toBe('2024-12-14T00:00:00.000Z');
+		expect(getArticleIdForDate(new Date('2024-12-15T08:00:00.000Z'))).toBe('2024-12-15T00:00:00.000Z');
+	});
+
+	it('keeps the article of the local day across midnight UTC in a positive offset zone', () => {
+		const { getArticleIdForDate } = loadUtilsInTimezone('Pacific/Auckland');
+		expect(getArticleIdForDate(new Date('2024-12-14T23:59:59.999Z'))).toBe('2024-12-15T00:00:00.000Z');
+		expect(getArticleIdForDate(new Date('2024-12-15T00:00:00.000Z'))).toBe('2024-12-15T00:00:00.000Z');
+		// local midnight (NZDT, UTC+13)
+		expect(getArticleIdForDate(new Date('2024-12-14T10:59:59.999Z'))).toBe('2024-12-14T00:00:00.000Z');
+		expect(getArticleIdForDate(new Date('2024-12-14T11:00:00.000Z'))).toBe('2024-12-15T00:00:00.000Z');
+	});
+
+	it('switches at local midnight on the day daylight saving time starts', () => {
+		const { getArticleIdForDate } = loadUtilsInTimezone('America/Los_Angeles');
+		// March 9, 2025 starts in PST (UTC-8), the clocks are set forward at 2am
+		expect(getArticleIdForDate(new Date('2025-03-09T07:59:59.999Z'))).toBe('2025-03-08T00:00:00.000Z');
+		expect(getArticleIdForDate(new Date('2025-03-09T08:00:00.000Z'))).toBe('2025-03-09T00:00:00.000Z');
+		// and ends in PDT (UTC-7)
+		expect(getArticleIdForDate(new Date('2025-03-10T06:59:59.999Z'))).toBe('2025-03-09T00:00:00.000Z');
+		expect(getArticleIdForDate(new Date('2025-03-10T07:00:00.000Z'))).toBe('2025-03-10T00:00:00.000Z');
+	});
+});
+
+describe('getHourInTimezone', () => {
+	it('returns the local hour around midnight UTC', () => {
+		const instants = [new Date('2024-12-14T23:59:59.999Z'), new Date('2024-12-15T00:00:00.000Z')];
+		expect(instants.map(loadUtilsInTimezone('UTC').getHourInTimezone)).toEqual([23, 0]);
+		expect(instants.map(loadUtilsInTimezone('America/Los_Angeles').getHourInTimezone)).toEqual([15, 16]);
+		expect(instants.map(loadUtilsInTimezone('Pacific/Auckland').getHourInTimezone)).toEqual([12, 13]);
+	});
+
+	it('skips the hour the clocks are set forward', () => {
+		const { getHourInTimezone } = loadUtilsInTimezone('Europe/Vienna');
+		expect(getHourInTimezone(new Date('2025-03-30T00:59:59.999Z'))).toBe(1);
+		expect(getHourInTimezone(new Date('2025-03-30T01:00:00.000Z'))).toBe(3);
+	});
+});
+
+describe('getDateInTimezone', () => {
+	it('returns the instant of a local time on the day of an article', () => {
+		const articleId = '2024-12-15T00:00:00.000Z';
+		expect(loadUtilsInTimezone('UTC').getDateInTimezone(articleId, 0).toISOString()).toBe('2024-12-15T00:00:00.000Z');
+		expect(loadUtilsInTimezone('America/Los_Angeles').getDateInTimezone(articleId, 0).toISOString()).toBe('2024-12-15T08:00:00.000Z');
+		expect(loadUtilsInTimezone('Pacific/Auckland').getDateInTimezone(articleId, 0).toISOString()).toBe('2024-12-14T11:00:00.000Z');
+		expect(loadUtilsInTimezone('Pacific/Auckland').getDateInTimezone(articleId, 23, 59).toISOString()).toBe('2024-12-15T10:59:00.000Z');
+	});
+
+	it('uses the offset of the local time on days daylight saving time starts or ends', () => {
+		const { getDateInTimezone, getDateForArticleId } = loadUtilsInTimezone('Europe/Vienna');
+		// March 30, 2025: CET (UTC+1) until 2am, CEST (UTC+2) afterwards
+		expect(getDateInTimezone('2025-03-30T00:00:00.000Z', 1).toISOString()).toBe('2025-03-30T00:00:00.000Z');
+		expect(getDateInTimezone('2025-03-30T00:00:00.000Z', 4).toISOString()).toBe('2025-03-30T02:00:00.000Z');
+		expect(getDateForArticleId('2025-03-30T00:00:00.000Z').toISOString()).toBe('2025-03-30T10:00:00.000Z');
+		// October 26, 2025: CEST until 3am, CET afterwards
+		expect(getDateInTimezone('2025-10-26T00:00:00.000Z', 1).toISOString()).toBe('2025-10-25T23:00:00.000Z');
+		expect(getDateForArticleId('2025-10-26T00:00:00.000Z').toISOString()).toBe('2025-10-26T11:00:00.000Z');
+	});
+});
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { buildArticleFromRestFeed } from '../src/functions/wikipedia';
+import { ContentType } from '../src/utils/enums';
+import { OnThisDayRestFeed } from '../src/utils/interfaces';
+
+const FEED_URL = 'https://en.wikipedia.org/api/rest_v1/feed/onthisday/all/07/20';
+
+/**
+ * Load a recorded REST feed from the fixtures
+ * @param {string} name - The file name of the fixture
+ * @returns {OnThisDayRestFeed}
+ */
+function loadFixture(name: string): OnThisDayRestFeed {
+	return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8'));
+}
+
+describe('buildArticleFromRestFeed', () => {
+	const article = buildArticleFromRestFeed(loadFixture('rest-onthisday-07-20.json'), new Date('2026-07-20T00:00:00Z'), FEED_URL);
+
+	it('builds the article of the date', () => {
+		expect(article.id).toBe('2026-07-20T00:00:00.000Z');
+		expect(article.url).toBe(FEED_URL);
+		expect(article.contentList.every(c => typeof c.id === 'string' && c.id.length > 0)).toBe(true);
+	});
+
+	it('builds the contents in feed order, skipping the feed types that are not configured', () => {
+		// the "events" of the feed are not part of the default REST_FEED_TYPES
+		expect(article.contentList.map(c => c.type)).toEqual([
+			ContentType.todayText,
+			ContentType.holiday,
+			ContentType.featuredEvent,
+			ContentType.event,
+			ContentType.anniversary,
+			ContentType.anniversary,
+			ContentType.anniversary
+		]);
+		expect(article.contentList[0].alreadyPosted).toBe(true);
+	});
+
+	it('links the referenced pages in the text', () => {
+		expect(article.contentList.map(c => c.value)).toEqual([
+			'<p><b><a href="/wiki/July_20">July 20</a></b></p>',
+			'<a href="/wiki/Independence_Day_(Colombia)">Independence Day (Colombia)</a>',
+			'<li><a href="/wiki/1969">1969</a> – <a href="/wiki/Apollo_11">Apollo 11</a> astronauts <a href="/wiki/Neil_Armstrong">Neil Armstrong</a> and <a href="/wiki/Buzz_Aldrin">Buzz Aldrin</a> became the first people to land on the <a href="/wiki/Moon">Moon</a>.</li>',
+			'<li><a href="/wiki/1944">1944</a> – World War II: <a href="/wiki/Claus_von_Stauffenberg">Claus von Stauffenberg</a> &amp; other officers failed to assassinate <a href="/wiki/Adolf_Hitler">Adolf Hitler</a> with a bomb.</li>',
+			'<li><a href="/wiki/Alexander_the_Great">Alexander the Great</a>, Macedonian king (<abbr title="born">b.</abbr> <a href="/wiki/356_BC">356 BC</a>)</li>',
+			'<li><a href="/wiki/Petrarch">Petrarch</a>, Italian poet and scholar (<abbr title="born">b.</abbr> <a href="/wiki/1304">1304</a>)</li>',
+			'<li><a href="/wiki/Guglielmo_Marconi">Guglielmo Marconi</a>, Italian inventor and Nobel laureate (<abbr title="died">d.</abbr> <a href="/wiki/1937">1937</a>)</li>'
+		]);
+	});
+
+	it('attaches the thumbnail of the first selected entry with one to the featured event', () => {
+		const featuredEvent = article.contentList.find(c => c.type === ContentType.featuredEvent);
+		expect(featuredEvent.img).toEqual({
+			uri: 'https://upload.wikimedia.org/wikipedia/commons/thumb/2/27/Aldrin_Apollo_11_original.jpg/320px-Aldrin_Apollo_11_original.jpg',
+			alt: 'First crewed Moon landing (1969)',
+			height: 320,
+			width: 320
+		});
+		expect(article.contentList.filter(c => c.img).length).toBe(1);
+	});
+});
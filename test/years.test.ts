@@ -0,0 +1,97 @@
+import { Article, Content } from '../src/classes/classes';
+import { ContentType } from '../src/utils/enums';
+import { getAgeAtDeath, getContentYears, getYearsAgo, getYearsBetween, parseYear } from '../src/functions/years';
+import { prefixText } from '../src/functions/templates';
+
+describe('getYearsBetween', () => {
+	it.each([
+		[1796, 2026, 230],
+		[-44, 2026, 2069],
+		// there is no year zero
+		[-1, 1, 1],
+		[-100, -44, 56],
+		[2026, 2026, 0]
+	])('counts %i to %i as %i years', (from, to, years) => {
+		expect(getYearsBetween(from, to)).toBe(years);
+	});
+});
+
+describe('parseYear', () => {
+	it.each([
+		['1796 – Edward Jenner administers the first smallpox vaccination.', { year: 1796, approximate: false }],
+		['c. 1300 – Something happened.', { year: 1300, approximate: true }],
+		['circa 500 BCE', { year: -500, approximate: true }],
+		['44 BC', { year: -44, approximate: false }],
+		['AD 79', { year: 79, approximate: false }],
+		['79 CE', { year: 79, approximate: false }]
+	])('parses %s', (text, year) => {
+		expect(parseYear(text)).toEqual(year);
+	});
+
+	it.each(['0 BC', 'In 1926, something happened.', 'Christmas'])('does not parse %s', text => {
+		expect(parseYear(text)).toBeNull();
+	});
+});
+
+describe('getContentYears', () => {
+	it('gets the leading year of events', () => {
+		const content = new Content(ContentType.event, '<li>c. <a href="/wiki/44_BC">44 BC</a> – <a href="/wiki/Julius_Caesar">Julius Caesar</a> is assassinated.</li>');
+		expect(getContentYears(content)).toEqual({ year: { year: -44, approximate: true }, birth: null, death: null });
+	});
+
+	it('gets the year of birth of anniversaries', () => {
+		const content = new Content(ContentType.anniversary, '<li><a href="/wiki/Franz_Liszt">Franz Liszt</a>, Hungarian composer (<abbr title="born">b.</abbr> 1811)</li>');
+		expect(getContentYears(content)).toEqual({ year: { year: 1811, approximate: false }, birth: { year: 1811, approximate: false }, death: null });
+	});
+
+	it('only takes the last parentheses of anniversaries into account', () => {
+		const content = new Content(ContentType.anniversary, '<li><a href="/wiki/John_Smith">John Smith</a> (1900 film director) (<abbr title="died">d.</abbr> 1985)</li>');
+		expect(getContentYears(content)).toEqual({ year: { year: 1985, approximate: false }, birth: null, death: { year: 1985, approximate: false } });
+	});
+
+	it('applies the era of the year of death to the year of birth', () => {
+		const content = new Content(ContentType.anniversary, '<li><a href="/wiki/Julius_Caesar">Julius Caesar</a>, Roman general (100–44 BC)</li>');
+		const years = getContentYears(content);
+		expect(years.birth).toEqual({ year: -100, approximate: false });
+		expect(years.death).toEqual({ year: -44, approximate: false });
+		expect(years.year).toBe(years.death);
+	});
+
+	it('finds no year in holidays', () => {
+		expect(getContentYears(new Content(ContentType.holiday, '<li><a href="/wiki/Christmas">Christmas</a></li>'))).toEqual({ year: null, birth: null, death: null });
+	});
+});
+
+describe('getYearsAgo and getAgeAtDeath', () => {
+	it('count the years of a content', () => {
+		const content = new Content(ContentType.anniversary, '<li><a href="/wiki/Julius_Caesar">Julius Caesar</a>, Roman general (100–44 BC)</li>');
+		expect(getYearsAgo(content, 2026)).toBe(2069);
+		expect(getAgeAtDeath(content)).toBe(56);
+	});
+
+	it('give no age without both years', () => {
+		const content = new Content(ContentType.anniversary, '<li><a href="/wiki/Franz_Liszt">Franz Liszt</a>, Hungarian composer (<abbr title="born">b.</abbr> 1811)</li>');
+		expect(getYearsAgo(content, 2026)).toBe(215);
+		expect(getAgeAtDeath(content)).toBeNull();
+	});
+});
+
+describe('prefixText', () => {
+	it('tells how many years ago an event happened with the built-in templates', async () => {
+		const event = new Content(ContentType.event, '<li><a href="/wiki/1969">1969</a> – <a href="/wiki/Apollo_11">Apollo 11</a> lands on the Moon.</li>');
+		const article = new Article('2026-07-20T00:00:00.000Z', 'url', [new Content(ContentType.todayText, 'July 20'), event]);
+		expect(await prefixText(article, event)).toBe('#OnThisDay, July 20 in <li><a href="/wiki/1969">1969</a> (57 years ago):<br><br><a href="/wiki/Apollo_11">Apollo 11</a> lands on the Moon.</li>');
+	});
+
+	it('tells the age at death of an anniversary with the built-in templates', async () => {
+		const anniversary = new Content(ContentType.anniversary, '<li><a href="/wiki/Fyodor_Dostoevsky">Fyodor Dostoevsky</a>, Russian novelist (1821–1881)</li>');
+		const article = new Article('2026-02-09T00:00:00.000Z', 'url', [new Content(ContentType.todayText, 'February 9'), anniversary]);
+		expect(await prefixText(article, anniversary)).toBe('#Anniversary - #OnThisDay, February 9:<br><br><li><a href="/wiki/Fyodor_Dostoevsky">Fyodor Dostoevsky</a>, Russian novelist (1821–1881)</li>, aged 60');
+	});
+
+	it('leaves out the age at death if an anniversary does not give both years', async () => {
+		const anniversary = new Content(ContentType.anniversary, '<li><a href="/wiki/Franz_Liszt">Franz Liszt</a>, Hungarian composer (<abbr title="born">b.</abbr> 1811)</li>');
+		const article = new Article('2026-10-22T00:00:00.000Z', 'url', [new Content(ContentType.todayText, 'October 22'), anniversary]);
+		expect(await prefixText(article, anniversary)).toBe('#Anniversary - #OnThisDay, October 22:<br><br>🚼 <li><a href="/wiki/Franz_Liszt">Franz Liszt</a>, Hungarian composer (<abbr title="born">b.</abbr> 1811)</li>');
+	});
+});